@@ -1,4 +1,4 @@
-import { query } from "../index";
+import { query, FilterSyntaxError, SortOptions } from "../index";
 
 describe("ArrayQuery", () => {
   const testData = {
@@ -119,6 +119,229 @@ describe("ArrayQuery", () => {
     });
   });
 
+  describe(".run()", () => {
+    it("should filter, sort, limit and select", () => {
+      const result = query(testData)
+        .array("items")
+        .run("where price >= 75 order by price desc limit 2 select name, price")
+        .all();
+      expect(result).toEqual([
+        { name: "Item C", price: 150 },
+        { name: "Item A", price: 100 },
+      ]);
+    });
+
+    it("should sort by several keys", () => {
+      const result = query(testData)
+        .array("items")
+        .run("order by type, price desc")
+        .all();
+      expect(result.map((item) => item.id)).toEqual([2, 3, 1, 4]);
+    });
+
+    it("should accept clauses in any order and case", () => {
+      const result = query(testData)
+        .array("items")
+        .run("SELECT id LIMIT 1 ORDER BY price WHERE type == 'Premium'")
+        .all();
+      expect(result).toEqual([{ id: 1 }]);
+    });
+
+    it("should pass options to the where clause", () => {
+      const result = query(testData)
+        .array("items")
+        .run("where type == :type and name contains 'item' select id", {
+          params: { type: "Basic" },
+        })
+        .all();
+      expect(result).toEqual([{ id: 2 }]);
+    });
+
+    it("should keep clause keywords inside strings and groups", () => {
+      const result = query(testData)
+        .array("items")
+        .run("where (name != 'limit 1' and price > 60) limit 5 select id")
+        .all();
+      expect(result).toEqual([{ id: 1 }, { id: 3 }, { id: 4 }]);
+    });
+
+    it("should reject malformed query strings", () => {
+      const run = (queryString: string) =>
+        query(testData).array("items").run(queryString);
+      expect(() => run("")).toThrow(/Empty query string/);
+      expect(() => run("price > 1")).toThrow(/Expected a clause/);
+      expect(() => run("where")).toThrow(/Expected a value after "where"/);
+      expect(() => run("limit 1 limit 2")).toThrow(/Duplicate "limit"/);
+      expect(() => run("limit -1")).toThrow(/non-negative integer/);
+      expect(() => run("order by price up")).toThrow(/"asc" or "desc"/);
+      expect(() => run("select id name")).toThrow(/Expected ","/);
+      expect(() => run("order by price,")).toThrow(/Expected a field name/);
+    });
+
+    it("should report filter errors at their position in the query string", () => {
+      const queryString = "limit 2 where price >> 1";
+      let error: unknown;
+      try {
+        query(testData).array("items").run(queryString);
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(FilterSyntaxError);
+      expect((error as FilterSyntaxError).position).toBe(20);
+      expect((error as FilterSyntaxError).expression).toBe(queryString);
+    });
+  });
+
+  describe(".sort()", () => {
+    const people = {
+      people: [
+        { id: 1, last: "Smith", first: "Ann", age: 40 },
+        { id: 2, last: "Jones", first: "Bob", age: null },
+        { id: 3, last: "Smith", first: "Cal", age: 25 },
+        { id: 4, last: "Jones", first: "Dee", age: 31 },
+        { id: 5, last: "Smith", first: "Eve", age: null },
+        { id: 6, last: "Adams", first: "Fay", age: 25 },
+      ],
+    };
+    const ids = (items: Array<{ id: number }>) => items.map((item) => item.id);
+
+    it("should replace the previous sort", () => {
+      const result = query(people)
+        .array("people")
+        .sort("last")
+        .sort("first", "desc")
+        .all();
+      expect(ids(result)).toEqual([6, 5, 4, 3, 2, 1]);
+    });
+
+    it("should sort by several keys with null placement", () => {
+      const result = query(people)
+        .array("people")
+        .sort([
+          { path: "last" },
+          { path: "age", direction: "desc", nulls: "first" },
+        ])
+        .all();
+      expect(ids(result)).toEqual([6, 2, 4, 5, 1, 3]);
+    });
+
+    it("should keep nulls last in both directions by default", () => {
+      const asc = query(people).array("people").sort("age").all();
+      const desc = query(people).array("people").sort("age", "desc").all();
+      expect(ids(asc)).toEqual([3, 6, 4, 1, 2, 5]);
+      expect(ids(desc)).toEqual([1, 4, 3, 6, 2, 5]);
+    });
+
+    it("should add tie-breakers with thenBy()", () => {
+      const result = query(people)
+        .array("people")
+        .sort("age", "asc", { nulls: "first" })
+        .thenBy("last", "desc")
+        .all();
+      expect(ids(result)).toEqual([5, 2, 3, 6, 4, 1]);
+    });
+
+    it("should sort by computed keys and custom comparators", () => {
+      const result = query(people)
+        .array("people")
+        .sortBy((person) => person.id % 3)
+        .thenBy((person) => person.first, "desc", {
+          compare: (a: string, b: string) => a.localeCompare(b),
+        })
+        .all();
+      expect(ids(result)).toEqual([6, 3, 4, 1, 5, 2]);
+    });
+
+    it("should sort strings naturally, by locale and ignoring case", () => {
+      const files = {
+        files: [
+          { name: "item10" },
+          { name: "Item2" },
+          { name: "äpfel" },
+          { name: "item2" },
+          { name: "zebra" },
+          { name: "Apfel" },
+        ],
+      };
+      const names = (options: SortOptions) =>
+        query(files)
+          .array("files")
+          .sort("name", "asc", options)
+          .pluck("name")
+          .all();
+
+      expect(names({})).toEqual([
+        "Apfel",
+        "Item2",
+        "item10",
+        "item2",
+        "zebra",
+        "äpfel",
+      ]);
+      expect(names({ collation: "natural", caseInsensitive: true })).toEqual([
+        "Apfel",
+        "äpfel",
+        "Item2",
+        "item2",
+        "item10",
+        "zebra",
+      ]);
+      expect(names({ locale: "sv", caseInsensitive: true })).toEqual([
+        "Apfel",
+        "item10",
+        "Item2",
+        "item2",
+        "zebra",
+        "äpfel",
+      ]);
+    });
+
+    it("should order mixed types consistently", () => {
+      const mixed = {
+        values: [
+          { value: "10" },
+          { value: true },
+          { value: new Date("2024-01-01") },
+          { value: null },
+          { value: 9 },
+          { value: "9" },
+          { value: false },
+          { value: 100 },
+        ],
+      };
+      const result = query(mixed)
+        .array("values")
+        .sort("value", "asc", { collation: "natural" })
+        .pluck("value")
+        .all();
+      expect(result).toEqual([
+        9,
+        100,
+        "9",
+        "10",
+        false,
+        true,
+        new Date("2024-01-01"),
+        null,
+      ]);
+    });
+
+    it("should reject unknown collations", () => {
+      expect(() =>
+        query(people)
+          .array("people")
+          .sort("last", "asc", { collation: "binary" as any })
+          .all(),
+      ).toThrow(/Invalid collation "binary"/);
+    });
+
+    it("should be stable and leave the source array untouched", () => {
+      const result = query(people).array("people").sort("last").all();
+      expect(ids(result)).toEqual([6, 2, 4, 1, 3, 5]);
+      expect(ids(people.people)).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+  });
+
   describe(".first()", () => {
     it("should return the first matching item", () => {
       const result = query(testData)
@@ -268,6 +491,326 @@ describe("ArrayQuery", () => {
       expect(result).toHaveLength(1);
       expect(result[0].id).toBe(3);
     });
+
+    it("should branch a base query without affecting it", () => {
+      const base = query(testData).array("items").where("price").gte(75);
+      const premium = base.where("type").equals("Premium");
+      const sorted = base.sort("price", "desc");
+      const filtered = base.filter("name == 'Item D'");
+
+      expect(base.all().map((item) => item.id)).toEqual([1, 3, 4]);
+      expect(premium.all().map((item) => item.id)).toEqual([1, 3]);
+      expect(sorted.all().map((item) => item.id)).toEqual([3, 1, 4]);
+      expect(filtered.all().map((item) => item.id)).toEqual([4]);
+      expect(sorted.thenBy("id").where("id").lt(4).count()).toBe(2);
+      expect(base.whereSift({ id: 1 }).count()).toBe(1);
+      expect(base.count()).toBe(3);
+    });
+
+    it("should keep skipped conditional filters and clones independent", () => {
+      const base = query(testData).array("items").sort("price");
+      const same = base.whereIfPresent("type", undefined);
+      const basic = base.whereIfPresent("type", "basic");
+      const copy = base.clone();
+
+      expect(same.count()).toBe(4);
+      expect(basic.all().map((item) => item.id)).toEqual([2]);
+      expect(copy).not.toBe(base);
+      expect(copy.all()).toEqual(base.all());
+    });
+  });
+
+  describe("result caching", () => {
+    it("should filter and sort once across terminal methods", () => {
+      let filterCalls = 0;
+      let sortCalls = 0;
+      const q = query(testData)
+        .array("items")
+        .whereSift({
+          $where: function (this: { price: number }) {
+            filterCalls++;
+            return this.price > 60;
+          },
+        })
+        .sortBy((item) => {
+          sortCalls++;
+          return item.price;
+        });
+
+      expect(q.count()).toBe(3);
+      expect(q.first().id).toBe(4);
+      expect(q.sum("price")).toBe(325);
+      expect(q.all()).not.toBe(q.all());
+      expect(filterCalls).toBe(4);
+      expect(sortCalls).toBe(3);
+
+      // A new sort is a new query: it filters the current items again
+      expect(q.sort("id", "desc").first().id).toBe(4);
+      expect(filterCalls).toBe(8);
+    });
+
+    it("should compute derived sorts and every() from the current items", () => {
+      const data = { items: testData.items.map((item) => ({ ...item })) };
+      const base = query(data).array("items").where("price").gt(0);
+      expect(base.count()).toBe(4);
+      expect(base.every()).toBe(true);
+
+      data.items.push({ id: 5, type: "Basic", price: 0, name: "Item E" });
+      expect(base.count()).toBe(4);
+      expect(base.every()).toBe(true);
+      expect(base.sort("price").all()).toHaveLength(4);
+      expect(query(data).array("items").where("price").gt(0).every()).toBe(
+        false,
+      );
+
+      data.items.push({ id: 6, type: "Basic", price: 1, name: "Item F" });
+      expect(base.sort("price").first().id).toBe(6);
+      expect(base.thenBy("id").count()).toBe(5);
+      expect(base.where("type").equals("Basic").count()).toBe(2);
+    });
+
+    it("should freeze results with materialize()", () => {
+      const data = { items: testData.items.map((item) => ({ ...item })) };
+      const premium = query(data)
+        .array("items")
+        .where("type")
+        .equals("Premium")
+        .materialize();
+
+      data.items.push({ id: 5, type: "Premium", price: 10, name: "Item E" });
+      expect(premium.count()).toBe(2);
+      expect(premium.where("price").gt(0).count()).toBe(3);
+    });
+
+    it("should freeze unfiltered results with materialize()", () => {
+      const data = { items: testData.items.map((item) => ({ ...item })) };
+      const all = query(data).array("items").materialize();
+
+      data.items.push({ id: 5, type: "Premium", price: 10, name: "Item E" });
+      expect(all.count()).toBe(4);
+      expect(all.all()).toHaveLength(4);
+      expect(query(data).array("items").count()).toBe(5);
+    });
+  });
+
+  describe("lazy iteration", () => {
+    const rows = {
+      rows: Array.from({ length: 1000 }, (_, i) => ({
+        id: i,
+        even: i % 2 === 0,
+      })),
+    };
+
+    it("should stop filtering and mapping once take() has enough items", () => {
+      let filtered = 0;
+      let mapped = 0;
+      const result = query(rows)
+        .array("rows")
+        .whereSift({
+          $where: function (this: { even: boolean }) {
+            filtered++;
+            return this.even;
+          },
+        })
+        .map((row) => {
+          mapped++;
+          return row.id * 10;
+        })
+        .take(5)
+        .all();
+
+      expect(result).toEqual([0, 20, 40, 60, 80]);
+      expect(filtered).toBe(9);
+      expect(mapped).toBe(5);
+    });
+
+    it("should iterate matches with for...of and spread", () => {
+      const q = query(testData).array("items").where("type").equals("Premium");
+      const ids: number[] = [];
+      for (const item of q) {
+        ids.push(item.id);
+      }
+      expect(ids).toEqual([1, 3]);
+      expect([...q.sort("price", "desc")].map((item) => item.id)).toEqual([
+        3, 1,
+      ]);
+    });
+
+    it("should feed generators through toIterable()", () => {
+      function* labels(items: Iterable<{ id: number }>) {
+        for (const item of items) {
+          yield `#${item.id}`;
+        }
+      }
+      const iterable = query(rows)
+        .array("rows")
+        .where("even")
+        .equals(true)
+        .drop(2)
+        .toIterable();
+      const first = labels(iterable).next();
+      expect(first.value).toBe("#4");
+      expect([...query(testData).array("items").take(2).toIterable()]).toEqual(
+        testData.items.slice(0, 2),
+      );
+    });
+
+    it("should run lazy transforms once per terminal query", () => {
+      let calls = 0;
+      const q = query(testData)
+        .array("items")
+        .flatMap((item) => {
+          calls++;
+          return [item.id, item.id];
+        })
+        .dropWhile((id) => id < 2)
+        .takeWhile((id) => id < 4);
+      expect(q.all()).toEqual([2, 2, 3, 3]);
+      expect(q.count()).toBe(4);
+      expect(q.first()).toBe(2);
+      expect(calls).toBe(4);
+    });
+  });
+
+  describe(".indexBy()", () => {
+    const users = [
+      { id: 3, name: "Ann", age: 31, team: { code: "B" } },
+      { id: 1, name: "bob", age: 25, team: { code: "A" } },
+      { id: 2, name: "Bob", age: 40, team: { code: "A" } },
+      { id: 4, name: "Cy", age: 25, team: null },
+      { id: 5, name: "Dee", team: { code: "C" } },
+    ];
+
+    // Counts the items a query tests; indexed queries skip the rest
+    const counting = () => {
+      const counter = {
+        calls: 0,
+        clause: {
+          $where: () => {
+            counter.calls++;
+            return true;
+          },
+        },
+      };
+      return counter;
+    };
+
+    it("should only test the items found by the index", () => {
+      const indexed = query({ users }).withIndex("users", "id", "name");
+      const counter = counting();
+      const user = indexed
+        .whereSift(counter.clause)
+        .where("id")
+        .equals(2)
+        .one();
+      expect(user.name).toBe("Bob");
+      expect(counter.calls).toBe(1);
+
+      // equals() is case-insensitive by default
+      const bobs = counting();
+      expect(
+        indexed
+          .whereSift(bobs.clause)
+          .where("name")
+          .equals(" BOB ")
+          .pluck("id")
+          .all(),
+      ).toEqual([1, 2]);
+      expect(bobs.calls).toBe(2);
+    });
+
+    it("should return the same results as a scan", () => {
+      const plain = query({ users }).array("users");
+      const indexed = plain.indexBy("id", "name", "age", "team.code");
+      const cases: Array<(q: typeof plain) => typeof plain> = [
+        (q) => q.where("name").caseSensitive().equals("bob"),
+        (q) => q.where("name").equals("Bob"),
+        (q) => q.whereIn("id", [5, 1, 9]),
+        (q) => q.whereAll({ "team.code": "A", age: 40 }),
+        (q) => q.where("age").gte(25).where("age").lt(40),
+        (q) => q.where("age").between(25, 31, { inclusive: "right" }),
+        (q) => q.whereSift({ name: { $gt: "B", $lte: "Bob" } }),
+        (q) => q.filter("age > 30 and name != 'Ann'"),
+        (q) => q.filter("team.code in ('A', 'C')"),
+        (q) => q.where("name").contains("b"),
+        (q) => q.where("age").equals(25, { decimals: 0 }),
+        (q) => q.whereSift({ $or: [{ id: 1 }, { id: 4 }] }),
+        (q) => q.where("team.code").equals("A").sort("age", "desc"),
+      ];
+      for (const build of cases) {
+        expect(build(indexed).all()).toEqual(build(plain).all());
+      }
+    });
+
+    it("should use range lookups for gt/lt and between", () => {
+      const counter = counting();
+      const result = query({ users })
+        .withIndex("users", "age")
+        .whereSift(counter.clause)
+        .where("age")
+        .between(30, 40)
+        .pluck("id")
+        .all();
+      expect(result).toEqual([3, 2]);
+      expect(counter.calls).toBe(2);
+    });
+
+    it("should fall back to a scan for unindexable values", () => {
+      const rows = [
+        { id: 1, tags: ["a", "b"] },
+        { id: 2, tags: "a" },
+        { id: 3, tags: ["c"] },
+      ];
+      const counter = counting();
+      const result = query({ rows })
+        .withIndex("rows", "tags")
+        .whereSift(counter.clause)
+        .where("tags")
+        .equals("a")
+        .pluck("id")
+        .all();
+      expect(result).toEqual([1, 2]);
+      expect(counter.calls).toBe(3);
+    });
+
+    it("should rebuild the index when the array changes", () => {
+      const data = { users: users.map((user) => ({ ...user })) };
+      const indexed = query(data).withIndex("users", "id");
+
+      data.users.push({ id: 6, name: "Eve", age: 22, team: null });
+      expect(indexed.where("id").equals(6).one().name).toBe("Eve");
+
+      // In-place changes keep the built index until reindex()
+      data.users[0] = { ...data.users[0], id: 7 };
+      const again = query(data).withIndex("users", "id");
+      expect(again.where("id").equals(7).exists()).toBe(false);
+      const reindexed = again.reindex();
+      expect(reindexed.where("id").equals(7).one().name).toBe("Ann");
+      expect(reindexed.where("id").equals(3).exists()).toBe(false);
+    });
+
+    it("should reuse the index across queries over the same array", () => {
+      const rows = Array.from({ length: 50 }, (_, i) => ({ id: i }));
+      let reads = 0;
+      const counted = rows.map((row) => ({
+        get id() {
+          reads++;
+          return row.id;
+        },
+      }));
+      query({ counted }).withIndex("counted", "id");
+      expect(reads).toBe(50);
+      for (let id = 0; id < 10; id++) {
+        const row = query({ counted })
+          .withIndex("counted", "id")
+          .where("id")
+          .equals(id)
+          .one();
+        expect(row.id).toBe(id);
+      }
+      // Index built once; each lookup only tests its match
+      expect(reads).toBe(50 + 10 * 2);
+    });
   });
 
   // ---------------------------------------------------------------------------
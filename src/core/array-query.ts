@@ -3,16 +3,36 @@
  * @description ArrayQuery class for fluent array filtering and transformations.
  */
 
-import sift from "sift";
-import { ArrayQueryMetadata, Primitive } from "../types";
+import {
+  ArrayQueryMetadata,
+  CompiledFilter,
+  FilterOptions,
+  Primitive,
+  SortDirection,
+  SortKey,
+  SortOptions,
+} from "../types";
 import { getByPath } from "../helpers/path";
-import { parseCompositeFilterExpression } from "../filters/logical-operators";
+import { compilePredicate } from "../helpers/predicate";
+import { sortItems } from "../helpers/sort";
+import { getItemIndex, indexCandidates } from "../helpers/item-index";
+import { filterNodeToSiftClause } from "../filters/logical-operators";
+import { parseQueryString } from "../filters/query-string";
+import { filterToClause } from "../filters/compile-filter";
 import { WhereBuilder } from "./where-builder";
 import { AggregateQuery } from "../queries/aggregate-query";
 import { ValueArrayQuery } from "../queries/value-array-query";
 import { PathQuery } from "../queries/path-query";
 import { IndexQuery } from "../queries/index-query";
 
+/**
+ * Items a query runs over: an array, or a lazy producer collected into `items` on first full use.
+ */
+type ItemSource<TItem> = {
+  items?: TItem[];
+  iterate: () => Iterable<TItem>;
+};
+
 /**
  * Fluent query wrapper around an array.
  *
@@ -25,16 +45,29 @@ import { IndexQuery } from "../queries/index-query";
  * @typeParam TItem - The type of each item in the array.
  */
 export class ArrayQuery<TItem> {
-  private readonly clauses: any[] = [];
+  private clauses: readonly any[] = [];
+  private rawClauses: ReadonlySet<any> = new Set<any>();
+  private sortKeys: ReadonlyArray<SortKey<TItem>> = [];
+  private indexPaths: readonly string[] = [];
+  private predicate?: (item: TItem) => boolean;
+  private filtered?: readonly TItem[];
+  private results?: readonly TItem[];
+  private sourceCount?: number;
+  private source: ItemSource<TItem>;
   private readonly metadata?: ArrayQueryMetadata;
 
-  constructor(
-    private readonly items: TItem[],
-    metadata?: ArrayQueryMetadata,
-  ) {
+  constructor(items: TItem[], metadata?: ArrayQueryMetadata) {
+    this.source = { items, iterate: () => items };
     this.metadata = metadata;
   }
 
+  /**
+   * The source items, collected from a lazy source on first use.
+   */
+  private get items(): TItem[] {
+    return (this.source.items ??= Array.from(this.source.iterate()));
+  }
+
   /**
    * Adds a raw sift query for advanced use cases.
    *
@@ -49,11 +82,10 @@ export class ArrayQuery<TItem> {
    * ```
    *
    * @param siftQuery - A query object compatible with sift (Mongo-like syntax).
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
-  whereSift(siftQuery: any): this {
-    this.clauses.push(siftQuery);
-    return this;
+  whereSift(siftQuery: any): ArrayQuery<TItem> {
+    return this._pushClause(siftQuery, true);
   }
 
   /**
@@ -70,14 +102,36 @@ export class ArrayQuery<TItem> {
    * - `contains` → substring match (case-insensitive by default, trims by default)
    * - `startsWith` → prefix match (case-insensitive by default, trims by default)
    * - `endsWith` → suffix match (case-insensitive by default, trims by default)
+   * - `in` / `not in` → membership in a list literal: `('a', 'b')` or `[1, 2]`
+   * - `matches` / `not matches` → regex literal: `/^SKU-\d+$/i` (write `/` inside the pattern as `\/`;
+   *   without flags, follows the `caseSensitive` option)
+   * - `between` / `not between` → inclusive range: `price between 10 and 20`
+   * - `exists` / `not exists` → field presence (no value)
+   * - `is [not] null`, `is [not] empty`, `is [not] string|number|boolean|array|object` → value checks (no value)
+   * - `has` → array contains a value, or every value of a list: `tags has 'beta'`, `tags has ('a', 'b')`
    *
    * Values can be:
-   * - String literals: `'Active'` or `"Active"`
+   * - String literals: `'Active'` or `"Active"` (escapes: `\'`, `\"`, `\\`, `\n`, `\uXXXX`, or a doubled quote: `'O''Brien'`)
    * - Numbers: `1000`
    * - Booleans: `true` or `false`
    * - `null`
    * - `undefined`
    * - Unquoted strings: `Active` (treated as string)
+   * - Field references: `@cost` (compares against another field of the same item)
+   * - Placeholders: `:name` or `$1`, bound from `options.params`
+   *
+   * The left-hand side can also be computed with `+ - * / %` (surrounded by spaces) and the
+   * functions `len`, `size`, `lower`, `upper`, `trim`, `abs`, `round(x, decimals?)`, `floor`, `ceil`:
+   * `price * quantity > 100`, `lower(code) == 'abc'`, `round(total, 2) == 19.99`.
+   *
+   * Fields can be dot paths with array indices (`items[0].price`), quoted keys
+   * (`headers['x-request-id']`) and `[*]` wildcards, which match if any element
+   * matches (`tags[*] == 'sale'`).
+   *
+   * Conditions can be combined with `and`, `or` and `not (...)`, and grouped
+   * with parentheses. `and` binds tighter than `or`. `any lines: (...)` and
+   * `all lines: (...)` apply a condition to the elements of an array, with fields
+   * relative to each element.
    *
    * @example Exact match
    * ```ts
@@ -144,20 +198,54 @@ export class ArrayQuery<TItem> {
    *   .all();
    * ```
    *
-   * @param expression - Filter expression string (e.g., "field == value" or "field == value and field2 == value2")
-   * @param options - Optional options:
+   * @example List membership
+   * ```ts
+   * query(resp)
+   *   .array('items')
+   *   .filter("status in ('Active', 'Pending') and id not in [3, 7]")
+   *   .all();
+   * ```
+   *
+   * @example Grouping and negation (`and` binds tighter than `or`)
+   * ```ts
+   * query(resp)
+   *   .array('people')
+   *   .filter("(status == 'Active' or status == 'Pending') and not (age < 18)")
+   *   .all();
+   * ```
+   *
+   * @example Reusing a compiled filter
+   * ```ts
+   * const premium = compileFilter("type == 'Premium' and price >= 100");
+   * query(resp)
+   *   .array('items')
+   *   .filter(premium)
+   *   .all();
+   * ```
+   *
+   * @example Placeholders (bound as literals, never re-parsed)
+   * ```ts
+   * query(resp)
+   *   .array('people')
+   *   .filter("name == :name and age > $1", { params: { name: searchText, 1: 30 } })
+   *   .all();
+   * ```
+   *
+   * @param expression - Filter expression string (e.g., "field == value" or "field == value and field2 == value2"), or a filter returned by `compileFilter()`
+   * @param options - Optional options (only `params` is allowed with a compiled filter, which carries its own):
    *   - caseSensitive: for string operations
    *   - trim: for string operations
-   *   - decimals: number of decimal places for numeric equality (e.g., decimals: 2 rounds to 2 decimal places)
-   * @returns this (chainable)
-   * @throws Error if the expression format is invalid
+   *   - decimals: number of decimal places both sides of numeric comparisons are rounded to (e.g., decimals: 2)
+   *   - epsilon / relativeEpsilon: absolute / relative tolerance for numeric comparisons
+   *   - params: values for `:name` / `$1` placeholders
+   * @returns A new query (chainable)
+   * @throws FilterSyntaxError if the expression format is invalid (with position, expected tokens and suggestions)
    */
   filter(
-    expression: string,
-    options?: { caseSensitive?: boolean; trim?: boolean; decimals?: number },
-  ): this {
-    const clause = parseCompositeFilterExpression(expression, options);
-    return this._pushClause(clause);
+    expression: string | CompiledFilter,
+    options?: FilterOptions,
+  ): ArrayQuery<TItem> {
+    return this._pushClause(filterToClause(expression, options));
   }
 
   /**
@@ -193,20 +281,69 @@ export class ArrayQuery<TItem> {
    *   .all();
    * ```
    *
-   * @param expression - Filter expression string, or null/undefined to skip. If null/undefined, the filter is skipped and the query continues unchanged.
-   * @param options - Optional options (caseSensitive, trim for string operations, decimals for numeric precision)
-   * @returns this (chainable)
+   * @param expression - Filter expression string or compiled filter, or null/undefined to skip. If null/undefined, the filter is skipped and the query continues unchanged.
+   * @param options - Optional options (caseSensitive, trim for string operations, decimals / epsilon / relativeEpsilon for numeric precision, params for placeholders)
+   * @returns A new query (chainable)
    */
   filterIfPresent(
-    expression: string | null | undefined,
-    options?: { caseSensitive?: boolean; trim?: boolean; decimals?: number },
-  ): this {
+    expression: string | CompiledFilter | null | undefined,
+    options?: FilterOptions,
+  ): ArrayQuery<TItem> {
     if (expression !== null && expression !== undefined && expression !== "") {
-      this.filter(expression, options);
+      return this.filter(expression, options);
     }
     return this;
   }
 
+  /**
+   * Runs a query string combining a filter with sort, limit and projection clauses:
+   * `where <filter> order by <path> [asc|desc], ... limit <n> select <path>, ...`.
+   *
+   * Each clause is optional and compiles to the matching method: `where` to
+   * {@link filter}, `order by` to {@link sort}, `limit` to {@link take} and
+   * `select` to {@link pick}. Clauses may be written in any order but always
+   * apply in that one. Earlier `order by` keys take precedence over later ones.
+   *
+   * @example
+   * ```ts
+   * query(resp)
+   *   .array('items')
+   *   .run("where status == 'Active' order by price desc, name limit 10 select name, price")
+   *   .all();
+   * // => [{ name: 'Deluxe', price: 500 }, ...]
+   * ```
+   *
+   * @example With placeholders
+   * ```ts
+   * query(resp)
+   *   .array('items')
+   *   .run("where price > :min order by price limit 3", { params: { min: 100 } })
+   *   .all();
+   * ```
+   *
+   * @param queryString - The query string
+   * @param options - Options for the `where` filter (caseSensitive, trim, decimals, epsilon, params)
+   * @returns A query over the sorted, limited and projected items
+   * @throws FilterSyntaxError if the query string is invalid
+   */
+  run(queryString: string, options?: FilterOptions): ArrayQuery<any> {
+    const { where, orderBy, limit, select } = parseQueryString(queryString);
+    let result: ArrayQuery<any> = this;
+    if (where) {
+      result = result._pushClause(filterNodeToSiftClause(where, options));
+    }
+    if (orderBy.length > 0) {
+      result = result.sort(orderBy);
+    }
+    if (limit !== undefined) {
+      result = result.take(limit);
+    }
+    if (select) {
+      result = new ArrayQuery(result.pick(select));
+    }
+    return result;
+  }
+
   /**
    * Begins a where clause on a property path (supports nested dot-paths).
    *
@@ -280,18 +417,18 @@ export class ArrayQuery<TItem> {
    * @param path - Field path to match against
    * @param value - Value to match. If null/undefined, the filter is skipped and the query continues unchanged.
    * @param options - Optional matching options (ignoreCase, trim)
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
   whereIfPresent(
     path: string,
     value: any,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): this {
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
       const builder = this.where(path);
       if (options?.ignoreCase === false) builder.caseSensitive();
       if (options?.trim === false) builder.noTrim();
-      builder.equals(value);
+      return builder.equals(value);
     }
     return this;
   }
@@ -330,18 +467,18 @@ export class ArrayQuery<TItem> {
    * @param path - Field path to match against
    * @param value - Value to exclude. If null/undefined, the filter is skipped and the query continues unchanged.
    * @param options - Optional matching options (ignoreCase, trim)
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
   whereNotIfPresent(
     path: string,
     value: any,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): this {
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
       const builder = this.whereNot(path);
       if (options?.ignoreCase === false) builder.caseSensitive();
       if (options?.trim === false) builder.noTrim();
-      builder.equals(value);
+      return builder.equals(value);
     }
     return this;
   }
@@ -364,11 +501,14 @@ export class ArrayQuery<TItem> {
    *
    * @param path - Field path to compare
    * @param value - Numeric threshold. If null/undefined, the filter is skipped and the query continues unchanged.
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
-  greaterThanIfPresent(path: string, value: number | null | undefined): this {
+  greaterThanIfPresent(
+    path: string,
+    value: number | null | undefined,
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
-      this.where(path).greaterThan(value);
+      return this.where(path).greaterThan(value);
     }
     return this;
   }
@@ -389,14 +529,14 @@ export class ArrayQuery<TItem> {
    *
    * @param path - Field path to compare
    * @param value - Numeric threshold. If null/undefined, the filter is skipped and the query continues unchanged.
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
   greaterThanOrEqualIfPresent(
     path: string,
     value: number | null | undefined,
-  ): this {
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
-      this.where(path).greaterThanOrEqual(value);
+      return this.where(path).greaterThanOrEqual(value);
     }
     return this;
   }
@@ -417,11 +557,14 @@ export class ArrayQuery<TItem> {
    *
    * @param path - Field path to compare
    * @param value - Numeric threshold. If null/undefined, the filter is skipped and the query continues unchanged.
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
-  lessThanIfPresent(path: string, value: number | null | undefined): this {
+  lessThanIfPresent(
+    path: string,
+    value: number | null | undefined,
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
-      this.where(path).lessThan(value);
+      return this.where(path).lessThan(value);
     }
     return this;
   }
@@ -442,14 +585,14 @@ export class ArrayQuery<TItem> {
    *
    * @param path - Field path to compare
    * @param value - Numeric threshold. If null/undefined, the filter is skipped and the query continues unchanged.
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
   lessThanOrEqualIfPresent(
     path: string,
     value: number | null | undefined,
-  ): this {
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
-      this.where(path).lessThanOrEqual(value);
+      return this.where(path).lessThanOrEqual(value);
     }
     return this;
   }
@@ -471,18 +614,18 @@ export class ArrayQuery<TItem> {
    * @param path - Field path to match against
    * @param value - Substring to search for. If null/undefined, the filter is skipped and the query continues unchanged.
    * @param options - Optional matching options (ignoreCase, trim)
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
   containsIfPresent(
     path: string,
     value: string | null | undefined,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): this {
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
       const builder = this.where(path);
       if (options?.ignoreCase !== false) builder.ignoreCase();
       if (options?.trim === false) builder.noTrim();
-      builder.contains(value);
+      return builder.contains(value);
     }
     return this;
   }
@@ -521,18 +664,18 @@ export class ArrayQuery<TItem> {
    * @param path - Field path to match against
    * @param value - Substring to exclude. If null/undefined, the filter is skipped and the query continues unchanged.
    * @param options - Optional matching options (ignoreCase, trim)
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
   notContainsIfPresent(
     path: string,
     value: string | null | undefined,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): this {
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
       const builder = this.where(path).not();
       if (options?.ignoreCase !== false) builder.ignoreCase();
       if (options?.trim === false) builder.noTrim();
-      builder.contains(value);
+      return builder.contains(value);
     }
     return this;
   }
@@ -554,18 +697,18 @@ export class ArrayQuery<TItem> {
    * @param path - Field path to match against
    * @param value - Prefix to match. If null/undefined, the filter is skipped and the query continues unchanged.
    * @param options - Optional matching options (ignoreCase, trim)
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
   startsWithIfPresent(
     path: string,
     value: string | null | undefined,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): this {
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
       const builder = this.where(path);
       if (options?.ignoreCase !== false) builder.ignoreCase();
       if (options?.trim === false) builder.noTrim();
-      builder.startsWith(value);
+      return builder.startsWith(value);
     }
     return this;
   }
@@ -604,18 +747,18 @@ export class ArrayQuery<TItem> {
    * @param path - Field path to match against
    * @param value - Prefix to exclude. If null/undefined, the filter is skipped and the query continues unchanged.
    * @param options - Optional matching options (ignoreCase, trim)
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
   notStartsWithIfPresent(
     path: string,
     value: string | null | undefined,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): this {
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
       const builder = this.where(path).not();
       if (options?.ignoreCase !== false) builder.ignoreCase();
       if (options?.trim === false) builder.noTrim();
-      builder.startsWith(value);
+      return builder.startsWith(value);
     }
     return this;
   }
@@ -637,18 +780,18 @@ export class ArrayQuery<TItem> {
    * @param path - Field path to match against
    * @param value - Suffix to match. If null/undefined, the filter is skipped and the query continues unchanged.
    * @param options - Optional matching options (ignoreCase, trim)
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
   endsWithIfPresent(
     path: string,
     value: string | null | undefined,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): this {
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
       const builder = this.where(path);
       if (options?.ignoreCase !== false) builder.ignoreCase();
       if (options?.trim === false) builder.noTrim();
-      builder.endsWith(value);
+      return builder.endsWith(value);
     }
     return this;
   }
@@ -687,18 +830,18 @@ export class ArrayQuery<TItem> {
    * @param path - Field path to match against
    * @param value - Suffix to exclude. If null/undefined, the filter is skipped and the query continues unchanged.
    * @param options - Optional matching options (ignoreCase, trim)
-   * @returns this (chainable)
+   * @returns A new query (chainable)
    */
   notEndsWithIfPresent(
     path: string,
     value: string | null | undefined,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): this {
+  ): ArrayQuery<TItem> {
     if (value !== null && value !== undefined) {
       const builder = this.where(path).not();
       if (options?.ignoreCase !== false) builder.ignoreCase();
       if (options?.trim === false) builder.noTrim();
-      builder.endsWith(value);
+      return builder.endsWith(value);
     }
     return this;
   }
@@ -716,14 +859,13 @@ export class ArrayQuery<TItem> {
    * ```
    * @throws Error if empty array is passed as values.
    */
-  whereIn(path: string, values: Primitive[]): this {
+  whereIn(path: string, values: Primitive[]): ArrayQuery<TItem> {
     if (!Array.isArray(values) || values.length === 0) {
       throw new Error(
         `whereIn("${path}") requires a non-empty array of values.`,
       );
     }
-    this.clauses.push({ [path]: { $in: values } });
-    return this;
+    return this._pushClause({ [path]: { $in: values } });
   }
 
   /**
@@ -741,15 +883,16 @@ export class ArrayQuery<TItem> {
    * @param criteria - Object with field paths and expected values (exact match).
    * @throws Error if no matches are found when chained with `.first()`, `.one()`, etc.
    */
-  whereAll(criteria: Record<string, Primitive>): this {
-    this.clauses.push(criteria);
-    return this;
+  whereAll(criteria: Record<string, Primitive>): ArrayQuery<TItem> {
+    return this._pushClause(criteria);
   }
 
   /**
-   * Sorts the array items by the value at the given path.
+   * Sorts the array items by the value at the given path, or by several keys.
    * Can sort in ascending (default) or descending order.
-   * Handles null/undefined values by placing them at the end.
+   * Handles null/undefined values by placing them at the end, unless `nulls: "first"`.
+   * Replaces any previous sort; use {@link thenBy} to add tie-breakers.
+   * The sort is stable: items that tie on every key keep their order.
    *
    * @example Sort ascending (default)
    * ```ts
@@ -769,6 +912,26 @@ export class ArrayQuery<TItem> {
    * // => Items sorted by price from highest to lowest
    * ```
    *
+   * @example Sort by several keys
+   * ```ts
+   * const users = query(data)
+   *   .array('users')
+   *   .sort([
+   *     { path: 'lastName' },
+   *     { path: 'age', direction: 'desc', nulls: 'first' },
+   *   ])
+   *   .all();
+   * ```
+   *
+   * @example Natural, case-insensitive string order
+   * ```ts
+   * const files = query(data)
+   *   .array('files')
+   *   .sort('name', 'asc', { collation: 'natural', caseInsensitive: true })
+   *   .all();
+   * // => file2.txt, File10.txt, file11.txt
+   * ```
+   *
    * @example Chaining with filters
    * ```ts
    * const items = query(data)
@@ -781,77 +944,220 @@ export class ArrayQuery<TItem> {
    *
    * @param path - Field path to sort by (supports dot notation for nested fields)
    * @param direction - Sort direction: 'asc' (default) or 'desc'
-   * @returns this (chainable)
+   * @param options - Null placement, string collation and a custom comparator
+   * @returns A new query (chainable)
    */
-  sort(path: string, direction: "asc" | "desc" = "asc"): this {
-    // Store sort configuration for later use in terminal methods
-    (this as any)._sortPath = path;
-    (this as any)._sortDirection = direction;
-    return this;
+  sort(
+    path: string,
+    direction?: SortDirection,
+    options?: SortOptions,
+  ): ArrayQuery<TItem>;
+  /**
+   * @param keys - Sort keys, most significant first
+   * @returns A new query (chainable)
+   */
+  sort(keys: Array<SortKey<TItem>>): ArrayQuery<TItem>;
+  sort(
+    pathOrKeys: string | Array<SortKey<TItem>>,
+    direction: SortDirection = "asc",
+    options?: SortOptions,
+  ): ArrayQuery<TItem> {
+    return this._derive({
+      sortKeys:
+        typeof pathOrKeys === "string"
+          ? [{ ...options, path: pathOrKeys, direction }]
+          : [...pathOrKeys],
+    });
   }
 
   /**
-   * @internal
+   * Sorts the array items by a key computed from each item.
+   * Replaces any previous sort; use {@link thenBy} to add tie-breakers.
+   *
+   * @example
+   * ```ts
+   * const byNameLength = query(data)
+   *   .array('users')
+   *   .sortBy((user) => user.name.length, 'desc')
+   *   .all();
+   * ```
+   *
+   * @param selector - Computes the sort key; called once per item
+   * @param direction - Sort direction: 'asc' (default) or 'desc'
+   * @param options - Null placement, string collation and a custom comparator
+   * @returns A new query (chainable)
    */
-  private _applySorting(items: TItem[]): TItem[] {
-    const sortPath = (this as any)._sortPath;
-    const sortDirection = (this as any)._sortDirection || "asc";
-
-    if (!sortPath) {
-      return items;
-    }
-
-    const sorted = [...items];
-    sorted.sort((a, b) => {
-      const valueA = getByPath(a as any, sortPath);
-      const valueB = getByPath(b as any, sortPath);
-
-      // Handle null/undefined - place them at the end
-      if (valueA === null || valueA === undefined) {
-        return valueB === null || valueB === undefined ? 0 : 1;
-      }
-      if (valueB === null || valueB === undefined) {
-        return -1;
-      }
-
-      // Compare values
-      let comparison = 0;
-      if (valueA < valueB) {
-        comparison = -1;
-      } else if (valueA > valueB) {
-        comparison = 1;
-      }
-
-      return sortDirection === "asc" ? comparison : -comparison;
+  sortBy(
+    selector: (item: TItem) => unknown,
+    direction: SortDirection = "asc",
+    options?: SortOptions,
+  ): ArrayQuery<TItem> {
+    return this._derive({
+      sortKeys: [{ ...options, by: selector, direction }],
     });
+  }
 
-    return sorted;
+  /**
+   * Adds a tie-breaking sort key after the current ones.
+   * Without a previous sort, behaves like {@link sort} / {@link sortBy}.
+   *
+   * @example
+   * ```ts
+   * const users = query(data)
+   *   .array('users')
+   *   .sort('lastName')
+   *   .thenBy('firstName')
+   *   .thenBy((user) => user.orders.length, 'desc')
+   *   .all();
+   * ```
+   *
+   * @param pathOrSelector - Field path, or a function computing the key
+   * @param direction - Sort direction: 'asc' (default) or 'desc'
+   * @param options - Null placement, string collation and a custom comparator
+   * @returns A new query (chainable)
+   */
+  thenBy(
+    pathOrSelector: string | ((item: TItem) => unknown),
+    direction: SortDirection = "asc",
+    options?: SortOptions,
+  ): ArrayQuery<TItem> {
+    return this._derive({
+      sortKeys: [
+        ...this.sortKeys,
+        typeof pathOrSelector === "string"
+          ? { ...options, path: pathOrSelector, direction }
+          : { ...options, by: pathOrSelector, direction },
+      ],
+    });
   }
 
   /**
    * Returns all matches.
    *
-   * If no filters are added, returns the original array items.
+   * If no filters are added, returns all the array items.
+   * Returns a new array on each call; the matches themselves are computed once
+   * per query and shared by every terminal method (see {@link materialize}).
+   * That snapshot is taken on the first terminal call, so later changes to the
+   * source array are not seen by this query; start a new query to see them.
    */
   all(): TItem[] {
-    let results: TItem[];
+    return [...this._results()];
+  }
+
+  /**
+   * Evaluates the filters and sort now and keeps the results for every later
+   * terminal method on this query, even if the source array changes afterwards.
+   *
+   * Results are cached on the first terminal call anyway, and from then on
+   * the query no longer sees changes to the source; call this to pick the
+   * moment explicitly, e.g. before mutating the source data. Adding a filter or sort
+   * returns a new query, which computes its own results from the current items;
+   * only `clone()` carries the snapshot over.
+   *
+   * @example
+   * ```ts
+   * const premium = query(data).array('items').where('type').equals('Premium').materialize();
+   * data.items.push({ type: 'Premium', price: 10 });
+   * premium.count(); // unchanged
+   * ```
+   *
+   * @returns this, with its results computed
+   */
+  materialize(): this {
+    this._results();
+    return this;
+  }
+
+  /**
+   * Iterates the matches lazily: without a sort or cached results, items are
+   * filtered one at a time as they are pulled, so stopping early skips the rest.
+   *
+   * @example
+   * ```ts
+   * for (const row of query(logs).array('rows').where('level').equals('error')) {
+   *   if (row.fatal) break;
+   * }
+   * ```
+   */
+  *[Symbol.iterator](): Iterator<TItem> {
+    if (
+      this.results ||
+      this.filtered ||
+      this.sortKeys.length > 0 ||
+      (this.indexPaths.length > 0 && this.clauses.length > 0)
+    ) {
+      yield* this._results();
+      return;
+    }
+    const items = this.source.items ?? this.source.iterate();
     if (this.clauses.length === 0) {
-      results = this.items;
-    } else {
-      const combined =
-        this.clauses.length === 1 ? this.clauses[0] : { $and: this.clauses };
-      results = this.items.filter(sift(combined));
+      yield* items;
+      return;
     }
+    this.predicate ??= compilePredicate(this.clauses, this.rawClauses);
+    for (const item of items) {
+      if (this.predicate(item)) {
+        yield item;
+      }
+    }
+  }
 
-    return this._applySorting(results);
+  /**
+   * Returns the matches as a lazy iterable, for `for...of`, spreading or
+   * feeding generators. Equivalent to iterating the query itself.
+   *
+   * @example
+   * ```ts
+   * function* ids(rows: Iterable<{ id: number }>) {
+   *   for (const row of rows) yield row.id;
+   * }
+   * ids(query(data).array('rows').where('active').equals(true).toIterable());
+   * ```
+   */
+  toIterable(): Iterable<TItem> {
+    return { [Symbol.iterator]: () => this[Symbol.iterator]() };
+  }
+
+  /**
+   * Filtered and sorted items, computed once per query, along with the number
+   * of source items they were filtered from. With indexes
+   * (see {@link indexBy}), only the items an index lookup returns are tested.
+   *
+   * @internal
+   */
+  private _results(): readonly TItem[] {
+    if (!this.results) {
+      if (!this.filtered) {
+        // Compiled once per set of clauses; sift only runs whereSift() clauses
+        this.predicate ??= compilePredicate(this.clauses, this.rawClauses);
+        const items = this.items;
+        this.sourceCount = items.length;
+        const candidates =
+          this.indexPaths.length > 0 && this.clauses.length > 0
+            ? indexCandidates(items, this.indexPaths, this.clauses)
+            : undefined;
+        // Without clauses, copy the items so the results are a snapshot too
+        this.filtered =
+          this.clauses.length === 0
+            ? items.slice()
+            : candidates
+              ? candidates.map((i) => items[i]).filter(this.predicate)
+              : items.filter(this.predicate);
+      }
+      this.results = sortItems(this.filtered, this.sortKeys);
+    }
+    return this.results;
   }
 
   /**
    * Returns the number of matching items.
    * Useful for assertions.
+   *
+   * Like every terminal method, counts the results cached on the first terminal
+   * call; changes to the source array after that are not seen by this query.
    */
   count(): number {
-    return this.all().length;
+    return this._results().length;
   }
 
   /**
@@ -897,7 +1203,9 @@ export class ArrayQuery<TItem> {
    * ```
    */
   every(): boolean {
-    return this.count() === this.items.length;
+    // Compare against the items the cached results were filtered from
+    const matched = this.count();
+    return matched === this.sourceCount;
   }
 
   /**
@@ -916,7 +1224,7 @@ export class ArrayQuery<TItem> {
    * @returns Sum of all numeric values at the path
    */
   sum(path: string): number {
-    const results = this.all();
+    const results = this._results();
     return results.reduce((total, item) => {
       const value = getByPath(item as any, path);
       const num = typeof value === "number" ? value : 0;
@@ -940,7 +1248,7 @@ export class ArrayQuery<TItem> {
    * @returns Average of all numeric values at the path
    */
   average(path: string): number {
-    const results = this.all();
+    const results = this._results();
     if (results.length === 0) return 0;
     const total = this.sum(path);
     return total / results.length;
@@ -962,7 +1270,7 @@ export class ArrayQuery<TItem> {
    * @returns Minimum value at the path (null if no items)
    */
   min(path: string): number | null {
-    const results = this.all();
+    const results = this._results();
     if (results.length === 0) return null;
     const values = results
       .map((item) => getByPath(item as any, path))
@@ -987,7 +1295,7 @@ export class ArrayQuery<TItem> {
    * @returns Maximum value at the path (null if no items)
    */
   max(path: string): number | null {
-    const results = this.all();
+    const results = this._results();
     if (results.length === 0) return null;
     const values = results
       .map((item) => getByPath(item as any, path))
@@ -1016,7 +1324,7 @@ export class ArrayQuery<TItem> {
     if (paths.length === 0) {
       throw new Error("sumOfProducts() requires at least one path");
     }
-    return this.all().reduce((sum, item) => {
+    return this._results().reduce((sum, item) => {
       let productValue = 1;
       for (const path of paths) {
         const value = getByPath(item as any, path);
@@ -1100,7 +1408,7 @@ export class ArrayQuery<TItem> {
    * @returns Object with grouped items: `{ [groupValue]: TItem[] }`
    */
   groupBy(path: string): Record<string, TItem[]> {
-    const results = this.all();
+    const results = this._results();
     const grouped: Record<string, TItem[]> = {};
 
     for (const item of results) {
@@ -1163,7 +1471,7 @@ export class ArrayQuery<TItem> {
    * @returns Array of distinct items
    */
   distinct(path?: string): TItem[] {
-    const results = this.all();
+    const results = this._results();
     if (!path) {
       // Remove duplicate items entirely (by reference)
       return Array.from(new Set(results));
@@ -1256,7 +1564,7 @@ export class ArrayQuery<TItem> {
    * ```
    */
   pluck<TValue = any>(path: string): ValueArrayQuery<TValue> {
-    const values = this.all().map((item) =>
+    const values = this._results().map((item) =>
       getByPath(item as any, path),
     ) as TValue[];
     return new ValueArrayQuery(values);
@@ -1347,7 +1655,7 @@ export class ArrayQuery<TItem> {
     };
 
     // Search through all matching items
-    for (const item of this.all()) {
+    for (const item of this._results()) {
       recursiveSearch(item);
     }
 
@@ -1389,7 +1697,7 @@ export class ArrayQuery<TItem> {
     pathOrPaths: string | string[] | Record<string, string>,
     ...rest: string[]
   ): Array<Record<string, any>> {
-    return this.all().map((item) => {
+    return this._results().map((item) => {
       const result: Record<string, any> = {};
 
       if (typeof pathOrPaths === "object" && !Array.isArray(pathOrPaths)) {
@@ -1417,7 +1725,7 @@ export class ArrayQuery<TItem> {
    * @throws Error if no matches are found.
    */
   first(): TItem {
-    const results = this.all();
+    const results = this._results();
     if (results.length === 0) {
       throw new Error("No matches found for first().");
     }
@@ -1439,7 +1747,7 @@ export class ArrayQuery<TItem> {
    * @throws Error if no matches are found.
    */
   random(): TItem {
-    const results = this.all();
+    const results = this._results();
     if (results.length === 0) {
       throw new Error("No matches found for random().");
     }
@@ -1481,7 +1789,7 @@ export class ArrayQuery<TItem> {
    * @throws Error if no matches are found.
    */
   randomWithPath(): [TItem, string] {
-    const results = this.all();
+    const results = this._results();
     if (results.length === 0) {
       throw new Error("No matches found for randomWithPath().");
     }
@@ -1534,7 +1842,7 @@ export class ArrayQuery<TItem> {
    * @throws Error if no matches are found.
    */
   last(): TItem {
-    const results = this.all();
+    const results = this._results();
     if (results.length === 0) {
       throw new Error("No matches found for last().");
     }
@@ -1549,7 +1857,7 @@ export class ArrayQuery<TItem> {
    * @throws Error if index is out of bounds
    */
   nth(index: number): TItem {
-    const results = this.all();
+    const results = this._results();
     if (index < 0 || index >= results.length) {
       throw new Error(
         `Index ${index} out of bounds. Found ${results.length} matches.`,
@@ -1651,7 +1959,7 @@ export class ArrayQuery<TItem> {
    * @returns A {@link PathQuery} helper for chainable path operations
    */
   path(): PathQuery {
-    const results = this.all();
+    const results = this._results();
     const paths = results.map((item, index) =>
       this._buildPathForItem(item, index),
     );
@@ -1666,7 +1974,7 @@ export class ArrayQuery<TItem> {
    * @throws Error if zero or more than one items match
    */
   one(message?: string): TItem {
-    const results = this.all();
+    const results = this._results();
     if (results.length !== 1) {
       throw new Error(
         message ?? `Expected exactly 1 match, found ${results.length}.`,
@@ -1718,7 +2026,9 @@ export class ArrayQuery<TItem> {
    * @returns An IndexQuery helper for chainable index operations.
    */
   index(): IndexQuery {
-    const matchingIndices = this.all().map((item) => this.items.indexOf(item));
+    const matchingIndices = this._results().map((item) =>
+      this.items.indexOf(item),
+    );
     return new IndexQuery(matchingIndices);
   }
 
@@ -1739,7 +2049,7 @@ export class ArrayQuery<TItem> {
    * @returns Array of [index, item] tuples for all matches.
    */
   allWithIndex(): Array<[number, TItem]> {
-    return this.all().map((item) => [this.items.indexOf(item), item]);
+    return this._results().map((item) => [this.items.indexOf(item), item]);
   }
 
   // ---------------------------------------------------------------------------
@@ -1751,6 +2061,10 @@ export class ArrayQuery<TItem> {
    * `ArrayQuery` over the results.  The returned query starts with no
    * clauses, so subsequent `.where()` calls filter the *mapped* output.
    *
+   * Like the other transforms below, `map` is lazy: `fn` runs as results are
+   * pulled, so `.map(fn).take(5)` calls `fn` (and filters) only until five
+   * results are produced.
+   *
    * @example
    * ```ts
    * const names = query(data)
@@ -1761,7 +2075,11 @@ export class ArrayQuery<TItem> {
    * ```
    */
   map<TOut>(fn: (item: TItem) => TOut): ArrayQuery<TOut> {
-    return new ArrayQuery<TOut>(this.all().map(fn));
+    return this._pipe(function* (items) {
+      for (const item of items) {
+        yield fn(item);
+      }
+    });
   }
 
   /**
@@ -1773,10 +2091,9 @@ export class ArrayQuery<TItem> {
     path2: string,
     fn: (a: any, b: any) => TOut,
   ): ArrayQuery<TOut> {
-    const mapped = this.all().map((item) =>
+    return this.map((item) =>
       fn(getByPath(item as any, path1), getByPath(item as any, path2)),
     );
-    return new ArrayQuery<TOut>(mapped);
   }
 
   /**
@@ -1784,11 +2101,10 @@ export class ArrayQuery<TItem> {
    * and returns a new `ArrayQuery` over the results.
    */
   mapn<TOut>(paths: string[], fn: (...values: any[]) => TOut): ArrayQuery<TOut> {
-    const mapped = this.all().map((item) => {
+    return this.map((item) => {
       const values = paths.map((p) => getByPath(item as any, p));
       return fn(...values);
     });
-    return new ArrayQuery<TOut>(mapped);
   }
 
   // ---------------------------------------------------------------------------
@@ -1806,7 +2122,7 @@ export class ArrayQuery<TItem> {
    * ```
    */
   reduce<TAcc>(fn: (acc: TAcc, item: TItem) => TAcc, init: TAcc): TAcc {
-    return this.all().reduce(fn, init);
+    return this._results().reduce(fn, init);
   }
 
   /**
@@ -1818,7 +2134,7 @@ export class ArrayQuery<TItem> {
     fn: (acc: TAcc, a: any, b: any) => TAcc,
     init: TAcc,
   ): TAcc {
-    return this.all().reduce(
+    return this._results().reduce(
       (acc, item) =>
         fn(acc, getByPath(item as any, path1), getByPath(item as any, path2)),
       init,
@@ -1833,7 +2149,7 @@ export class ArrayQuery<TItem> {
     fn: (acc: TAcc, ...values: any[]) => TAcc,
     init: TAcc,
   ): TAcc {
-    return this.all().reduce((acc, item) => {
+    return this._results().reduce((acc, item) => {
       const values = paths.map((p) => getByPath(item as any, p));
       return fn(acc, ...values);
     }, init);
@@ -1879,11 +2195,11 @@ export class ArrayQuery<TItem> {
    * ```
    */
   flatMap<TOut>(fn: (item: TItem) => TOut[]): ArrayQuery<TOut> {
-    const result: TOut[] = [];
-    for (const item of this.all()) {
-      result.push(...fn(item));
-    }
-    return new ArrayQuery<TOut>(result);
+    return this._pipe(function* (items) {
+      for (const item of items) {
+        yield* fn(item);
+      }
+    });
   }
 
   /**
@@ -1900,22 +2216,30 @@ export class ArrayQuery<TItem> {
    * ```
    */
   scan<TAcc>(fn: (acc: TAcc, item: TItem) => TAcc, init: TAcc): ArrayQuery<TAcc> {
-    const items = this.all();
-    const result: TAcc[] = [init];
-    let acc = init;
-    for (const item of items) {
-      acc = fn(acc, item);
-      result.push(acc);
-    }
-    return new ArrayQuery<TAcc>(result);
+    return this._pipe(function* (items) {
+      let acc = init;
+      yield acc;
+      for (const item of items) {
+        acc = fn(acc, item);
+        yield acc;
+      }
+    });
   }
 
   /**
    * Returns the first `n` items from the filtered results.
    * If `n >= length`, returns all items.  If `n <= 0`, returns empty.
+   * Stops pulling from unsorted queries and lazy transforms after `n` items.
    */
   take(n: number): ArrayQuery<TItem> {
-    return new ArrayQuery<TItem>(this.all().slice(0, n));
+    return this._pipe(function* (items) {
+      if (n <= 0) return;
+      let taken = 0;
+      for (const item of items) {
+        yield item;
+        if (++taken >= n) return;
+      }
+    });
   }
 
   /**
@@ -1923,20 +2247,28 @@ export class ArrayQuery<TItem> {
    * If `n >= length`, returns empty.  If `n <= 0`, returns all items.
    */
   drop(n: number): ArrayQuery<TItem> {
-    return new ArrayQuery<TItem>(this.all().slice(n));
+    return this._pipe(function* (items) {
+      let skipped = 0;
+      for (const item of items) {
+        if (skipped < n) {
+          skipped++;
+          continue;
+        }
+        yield item;
+      }
+    });
   }
 
   /**
    * Returns the longest prefix of items satisfying the predicate.
    */
   takeWhile(fn: (item: TItem) => boolean): ArrayQuery<TItem> {
-    const items = this.all();
-    const result: TItem[] = [];
-    for (const item of items) {
-      if (!fn(item)) break;
-      result.push(item);
-    }
-    return new ArrayQuery<TItem>(result);
+    return this._pipe(function* (items) {
+      for (const item of items) {
+        if (!fn(item)) return;
+        yield item;
+      }
+    });
   }
 
   /**
@@ -1944,10 +2276,14 @@ export class ArrayQuery<TItem> {
    * then returns the remainder.
    */
   dropWhile(fn: (item: TItem) => boolean): ArrayQuery<TItem> {
-    const items = this.all();
-    let i = 0;
-    while (i < items.length && fn(items[i])) i++;
-    return new ArrayQuery<TItem>(items.slice(i));
+    return this._pipe(function* (items) {
+      let dropping = true;
+      for (const item of items) {
+        if (dropping && fn(item)) continue;
+        dropping = false;
+        yield item;
+      }
+    });
   }
 
   /**
@@ -1961,7 +2297,7 @@ export class ArrayQuery<TItem> {
   ): [ArrayQuery<TItem>, ArrayQuery<TItem>] {
     const yes: TItem[] = [];
     const no: TItem[] = [];
-    for (const item of this.all()) {
+    for (const item of this._results()) {
       (fn(item) ? yes : no).push(item);
     }
     return [new ArrayQuery<TItem>(yes), new ArrayQuery<TItem>(no)];
@@ -1972,13 +2308,7 @@ export class ArrayQuery<TItem> {
    * `other`.  The result length equals the shorter of the two arrays.
    */
   zip<TOther>(other: TOther[]): ArrayQuery<[TItem, TOther]> {
-    const items = this.all();
-    const len = Math.min(items.length, other.length);
-    const result: [TItem, TOther][] = [];
-    for (let i = 0; i < len; i++) {
-      result.push([items[i], other[i]]);
-    }
-    return new ArrayQuery<[TItem, TOther]>(result);
+    return this.zipWith(other, (a, b): [TItem, TOther] => [a, b]);
   }
 
   /**
@@ -1989,18 +2319,145 @@ export class ArrayQuery<TItem> {
     other: TOther[],
     fn: (a: TItem, b: TOther) => TOut,
   ): ArrayQuery<TOut> {
-    const items = this.all();
-    const len = Math.min(items.length, other.length);
-    const result: TOut[] = [];
-    for (let i = 0; i < len; i++) {
-      result.push(fn(items[i], other[i]));
+    return this._pipe(function* (items) {
+      let i = 0;
+      if (other.length === 0) return;
+      for (const item of items) {
+        yield fn(item, other[i++]);
+        if (i >= other.length) return;
+      }
+    });
+  }
+
+  /**
+   * Returns an independent copy of this query: the same items, filters and sort.
+   * Every filter and sort method already returns a new query, so this is only
+   * needed to hand out a copy explicitly.
+   *
+   * @example
+   * ```ts
+   * const base = query(data).array('items').where('type').equals('Premium');
+   * const copy = base.clone();
+   * ```
+   */
+  clone(): ArrayQuery<TItem> {
+    return this._derive({});
+  }
+
+  /**
+   * Indexes the items by their value at each of `paths`, so this query and
+   * every query derived from it look matches up instead of scanning all items.
+   * Indexes are used for exact `equals()` (case-sensitive or not), `whereIn()`,
+   * `whereAll()`, and `gt`/`gte`/`lt`/`lte`/`between` with number or string
+   * bounds, including the equivalent `filter()` and `whereSift()` clauses.
+   * Other clauses, and paths holding arrays, objects or dates, fall back to a scan.
+   *
+   * Indexes belong to the source array and are built once, then shared by all
+   * queries over it, so indexing the same array again is cheap. An index is
+   * rebuilt when the array's length changes. Changes that keep the length are
+   * NOT detected: after replacing an element or editing an indexed value in
+   * place, indexed queries can miss items that now match until {@link reindex}
+   * is called.
+   *
+   * @example
+   * ```ts
+   * const users = query(data).array('users').indexBy('id');
+   * for (const id of ids) {
+   *   const user = users.where('id').equals(id).one(); // no full scan
+   * }
+   * ```
+   *
+   * @param paths - Field paths to index (dot notation supported)
+   * @returns A new query (chainable) that uses the indexes
+   */
+  indexBy(...paths: string[]): ArrayQuery<TItem> {
+    for (const path of paths) {
+      getItemIndex(this.items, path);
     }
-    return new ArrayQuery<TOut>(result);
+    return this._derive({
+      indexPaths: [...new Set([...this.indexPaths, ...paths])],
+    });
   }
 
-  /** @internal Used by {@link WhereBuilder} to append a clause. */
-  _pushClause(clause: any): this {
-    this.clauses.push(clause);
-    return this;
+  /**
+   * Rebuilds the indexes of this query (see {@link indexBy}) from the current
+   * items. Needed after elements were replaced or indexed values were edited
+   * in place, which the indexes don't detect.
+   *
+   * @example
+   * ```ts
+   * data.users[0] = { id: 42, name: 'Ann' };
+   * users = users.reindex();
+   * ```
+   *
+   * @returns A new query (chainable) that uses the rebuilt indexes
+   */
+  reindex(): ArrayQuery<TItem> {
+    for (const path of this.indexPaths) {
+      getItemIndex(this.items, path, true);
+    }
+    const next = this._derive({});
+    next.filtered = undefined;
+    next.results = undefined;
+    return next;
+  }
+
+  /**
+   * @internal Used by {@link WhereBuilder} to append a clause. Returns a new query;
+   * `raw` marks {@link whereSift} clauses, which are evaluated by sift.
+   */
+  _pushClause(clause: any, raw: boolean = false): ArrayQuery<TItem> {
+    return this._derive({
+      clauses: [...this.clauses, clause],
+      rawClauses: raw ? new Set([...this.rawClauses, clause]) : this.rawClauses,
+    });
+  }
+
+  /**
+   * Creates a query over the items produced lazily by `transform` from this
+   * query's matches. Nothing runs until the new query is iterated or a terminal
+   * method needs its items, and iteration stops pulling matches once
+   * `transform` returns.
+   *
+   * @internal
+   */
+  private _pipe<TOut>(
+    transform: (items: Iterable<TItem>) => Iterable<TOut>,
+  ): ArrayQuery<TOut> {
+    const query = new ArrayQuery<TOut>([]);
+    query.source = { iterate: () => transform(this) };
+    return query;
+  }
+
+  /**
+   * Creates a query over the same items with some of the filter and sort state replaced.
+   * Clause objects, sort keys and the compiled predicate are shared, never
+   * mutated; cached results are shared only while the clauses and sort are
+   * unchanged (`clone()`, `indexBy()`).
+   *
+   * @internal
+   */
+  private _derive(state: {
+    clauses?: readonly any[];
+    rawClauses?: ReadonlySet<any>;
+    sortKeys?: ReadonlyArray<SortKey<TItem>>;
+    indexPaths?: readonly string[];
+  }): ArrayQuery<TItem> {
+    const next = new ArrayQuery<TItem>([], this.metadata);
+    next.source = this.source;
+    next.clauses = state.clauses ?? this.clauses;
+    next.rawClauses = state.rawClauses ?? this.rawClauses;
+    next.sortKeys = state.sortKeys ?? this.sortKeys;
+    next.indexPaths = state.indexPaths ?? this.indexPaths;
+    if (next.clauses === this.clauses) {
+      next.predicate = this.predicate;
+      // A new sort recomputes from the current items, like a new filter does
+      if (next.sortKeys === this.sortKeys) {
+        next.filtered = this.filtered;
+        next.results = this.results;
+        next.sourceCount = this.sourceCount;
+      }
+    }
+    return next;
   }
 }
@@ -0,0 +1,192 @@
+import { Readable } from "stream";
+import { queryAsync, compileFilter } from "../index";
+
+describe("AsyncArrayQuery", () => {
+  const items = [
+    { id: 1, type: "Premium", price: 100, name: "Item A" },
+    { id: 2, type: "Basic", price: 50, name: "Item B" },
+    { id: 3, type: "Premium", price: 150, name: "Item C" },
+    { id: 4, type: "Standard", price: 75, name: "Item D" },
+  ];
+
+  async function* pages(pulled: number[] = []) {
+    for (let page = 0; page < items.length; page += 2) {
+      for (const item of items.slice(page, page + 2)) {
+        pulled.push(item.id);
+        yield item;
+      }
+    }
+  }
+
+  describe("filters and terminals", () => {
+    it("should filter with where() and filter()", async () => {
+      const premium = queryAsync(pages).where("type").equals("premium");
+      expect((await premium.all()).map((item) => item.id)).toEqual([1, 3]);
+      expect(await premium.count()).toBe(2);
+      expect(await premium.sum("price")).toBe(250);
+      expect(await premium.average("price")).toBe(125);
+
+      const cheap = queryAsync(pages).filter("price < :max", {
+        params: { max: 80 },
+      });
+      expect(await cheap.min("price")).toBe(50);
+      expect(await cheap.max("price")).toBe(75);
+      expect(
+        await queryAsync(pages)
+          .filter(compileFilter("type == 'Basic'"))
+          .count(),
+      ).toBe(1);
+    });
+
+    it("should support whereIn, whereAll, whereNot and whereSift", async () => {
+      const ids = async (q: { all(): Promise<Array<{ id: number }>> }) =>
+        (await q.all()).map((item) => item.id);
+      expect(await ids(queryAsync(pages).whereIn("id", [2, 4]))).toEqual([
+        2, 4,
+      ]);
+      expect(
+        await ids(queryAsync(pages).whereAll({ type: "Premium" })),
+      ).toEqual([1, 3]);
+      expect(
+        await ids(queryAsync(pages).whereNot("type").equals("Premium")),
+      ).toEqual([2, 4]);
+      expect(
+        await ids(queryAsync(pages).whereSift({ price: { $mod: [50, 0] } })),
+      ).toEqual([1, 2, 3]);
+    });
+
+    it("should map, flatMap and slice lazily", async () => {
+      const names = await queryAsync(pages)
+        .where("price")
+        .gte(75)
+        .map(async (item) => item.name)
+        .drop(1)
+        .all();
+      expect(names).toEqual(["Item C", "Item D"]);
+
+      const tags = await queryAsync([{ tags: ["a", "b"] }, { tags: ["c"] }])
+        .flatMap((item) => item.tags)
+        .dropWhile((tag) => tag === "a")
+        .takeWhile((tag) => tag !== "c")
+        .all();
+      expect(tags).toEqual(["b"]);
+    });
+
+    it("should stop reading the source early", async () => {
+      const pulled: number[] = [];
+      const first = await queryAsync(() => pages(pulled))
+        .where("type")
+        .equals("Premium")
+        .first();
+      expect(first.id).toBe(1);
+      expect(pulled).toEqual([1]);
+
+      pulled.length = 0;
+      await queryAsync(() => pages(pulled))
+        .take(2)
+        .all();
+      expect(pulled).toEqual([1, 2]);
+
+      expect(await queryAsync(pages).where("id").gt(10).exists()).toBe(false);
+      await expect(
+        queryAsync(pages).where("id").gt(10).first(),
+      ).rejects.toThrow(/No matches found for first/);
+    });
+
+    it("should branch queries and iterate with for await", async () => {
+      const base = queryAsync(pages).where("price").gt(60);
+      const premium = base.where("type").equals("Premium");
+      const seen: number[] = [];
+      for await (const item of base) {
+        seen.push(item.id);
+      }
+      expect(seen).toEqual([1, 3, 4]);
+      expect(await premium.count()).toBe(2);
+    });
+
+    it("should hand off to a synchronous query for sorting", async () => {
+      const sorted = (await queryAsync(pages).toArrayQuery())
+        .sort("price", "desc")
+        .pluck("id")
+        .all();
+      expect(sorted).toEqual([3, 1, 4, 2]);
+    });
+  });
+
+  describe("sources", () => {
+    it("should read a single-use source once", async () => {
+      const q = queryAsync(pages());
+      expect(await q.count()).toBe(4);
+      await expect(q.count()).rejects.toThrow(/already read/);
+      expect(await queryAsync(items).count()).toBe(4);
+      expect(await queryAsync(items).count()).toBe(4);
+    });
+
+    it("should read re-iterable collections more than once", async () => {
+      const q = queryAsync(new Set(items)).where("type").equals("premium");
+      expect(await q.count()).toBe(2);
+      expect((await q.all()).map((item) => item.id)).toEqual([1, 3]);
+
+      const byId = queryAsync(new Map(items.map((item) => [item.id, item])));
+      expect(await byId.count()).toBe(4);
+      expect(await byId.count()).toBe(4);
+
+      const iterator = queryAsync(items[Symbol.iterator]());
+      expect(await iterator.count()).toBe(4);
+      await expect(iterator.count()).rejects.toThrow(/already read/);
+    });
+
+    it("should parse NDJSON byte streams", async () => {
+      const text = '{"id":1,"name":"Zoë"}\n\n{"id":2,"name":"Ann"}\r\n{"id":3}';
+      const bytes = Buffer.from(text);
+      // Split inside the two-byte "ë"
+      const split = bytes.indexOf(Buffer.from("ë")) + 1;
+      const chunks = [bytes.subarray(0, split), bytes.subarray(split)];
+      const stream = Readable.from(chunks, { objectMode: false });
+
+      const result = await queryAsync(stream).all();
+      expect(result).toEqual([
+        { id: 1, name: "Zoë" },
+        { id: 2, name: "Ann" },
+        { id: 3 },
+      ]);
+    });
+
+    it("should report the line of invalid NDJSON", async () => {
+      const q = queryAsync(['{"id":1}\n\n{"id":', "}\n"], { format: "ndjson" });
+      await expect(q.all()).rejects.toThrow(/Invalid NDJSON at line 3/);
+    });
+
+    it("should stream the elements of a JSON array", async () => {
+      const chunks = [
+        ' [{"id":1,"note":"a, [b]"},',
+        ' {"id":2,"note":"say \\"hi\\"}"}, 3',
+        ', [4, 5] , "x"]  ',
+      ];
+      const result = await queryAsync(chunks, { format: "json-array" }).all();
+      expect(result).toEqual([
+        { id: 1, note: "a, [b]" },
+        { id: 2, note: 'say "hi"}' },
+        3,
+        [4, 5],
+        "x",
+      ]);
+      expect(await queryAsync(["[ ]"], { format: "json-array" }).count()).toBe(
+        0,
+      );
+    });
+
+    it("should reject malformed JSON arrays and unknown formats", async () => {
+      const read = (text: string) =>
+        queryAsync([text], { format: "json-array" }).all();
+      await expect(read('{"id":1}')).rejects.toThrow(/expected "\["/);
+      await expect(read("[1,,2]")).rejects.toThrow(/missing element/);
+      await expect(read("[1, 2")).rejects.toThrow(/unexpected end/);
+      await expect(read("[1] 2")).rejects.toThrow(/after the array/);
+      await expect(read("[1, nope]")).rejects.toThrow(/element 1/);
+      expect(() => queryAsync(items, { format: "csv" as any })).toThrow(
+        /Invalid format "csv"/,
+      );
+    });
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * @file core/async-array-query.ts
+ * @description AsyncArrayQuery class for fluent filtering of async and streaming sources.
+ */
+
+import { CompiledFilter, FilterOptions, Primitive } from "../types";
+import { getByPath } from "../helpers/path";
+import { compilePredicate } from "../helpers/predicate";
+import { filterToClause } from "../filters/compile-filter";
+import { ArrayQuery } from "./array-query";
+import { WhereBuilder } from "./where-builder";
+
+/**
+ * Fluent query over an async source, created by `queryAsync()`.
+ *
+ * Filters and transforms are lazy and return a new query; terminal methods
+ * (`all()`, `count()`, `first()`, `sum()`, ...) are async and read the source
+ * once, item by item, so only the current item is held in memory (plus the
+ * results of `all()`). `first()`, `exists()` and `take()` stop reading early.
+ *
+ * ```ts
+ * const errors = await queryAsync(fs.createReadStream('app.ndjson'))
+ *   .where('level').equals('error')
+ *   .count();
+ * ```
+ *
+ * @typeParam TItem - The type of each item in the source.
+ */
+export class AsyncArrayQuery<TItem> implements AsyncIterable<TItem> {
+  private clauses: readonly any[] = [];
+  private rawClauses: ReadonlySet<any> = new Set<any>();
+  private predicate?: (item: TItem) => boolean;
+
+  /**
+   * @param open - Opens a new iteration over the source items
+   */
+  constructor(private readonly open: () => AsyncIterable<TItem>) {}
+
+  /**
+   * Adds a raw sift query, like {@link ArrayQuery.whereSift}.
+   *
+   * @returns A new query (chainable)
+   */
+  whereSift(siftQuery: any): AsyncArrayQuery<TItem> {
+    return this._pushClause(siftQuery, true);
+  }
+
+  /**
+   * Applies a filter expression or compiled filter, like {@link ArrayQuery.filter}.
+   *
+   * @example
+   * ```ts
+   * await queryAsync(rows).filter("status == 'Active' and price > :min", { params: { min: 10 } }).all();
+   * ```
+   *
+   * @returns A new query (chainable)
+   * @throws FilterSyntaxError if the expression format is invalid
+   */
+  filter(
+    expression: string | CompiledFilter,
+    options?: FilterOptions,
+  ): AsyncArrayQuery<TItem> {
+    return this._pushClause(filterToClause(expression, options));
+  }
+
+  /**
+   * Begins a where clause on a property path, like {@link ArrayQuery.where}.
+   */
+  where(path: string): WhereBuilder<TItem, AsyncArrayQuery<TItem>> {
+    return new WhereBuilder<TItem, AsyncArrayQuery<TItem>>(this, path);
+  }
+
+  /**
+   * Begins a negated where clause on a property path.
+   */
+  whereNot(path: string): WhereBuilder<TItem, AsyncArrayQuery<TItem>> {
+    return new WhereBuilder<TItem, AsyncArrayQuery<TItem>>(this, path, true);
+  }
+
+  /**
+   * Filters items whose value at `path` is one of `values`.
+   *
+   * @throws Error if `values` is empty
+   */
+  whereIn(path: string, values: Primitive[]): AsyncArrayQuery<TItem> {
+    if (!Array.isArray(values) || values.length === 0) {
+      throw new Error(
+        `whereIn("${path}") requires a non-empty array of values.`,
+      );
+    }
+    return this._pushClause({ [path]: { $in: values } });
+  }
+
+  /**
+   * Filters items matching every path/value pair exactly.
+   */
+  whereAll(criteria: Record<string, Primitive>): AsyncArrayQuery<TItem> {
+    return this._pushClause(criteria);
+  }
+
+  /**
+   * Iterates the matches as they are read from the source.
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<TItem> {
+    if (this.clauses.length === 0) {
+      yield* this.open();
+      return;
+    }
+    this.predicate ??= compilePredicate(this.clauses, this.rawClauses);
+    for await (const item of this.open()) {
+      if (this.predicate(item)) {
+        yield item;
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lazy transforms
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Applies `fn` (which may be async) to each match. The returned query starts
+   * with no clauses, so subsequent `.where()` calls filter the mapped output.
+   */
+  map<TOut>(fn: (item: TItem) => TOut | Promise<TOut>): AsyncArrayQuery<TOut> {
+    return this._pipe<TOut>(async function* (items) {
+      for await (const item of items) {
+        yield await fn(item);
+      }
+    });
+  }
+
+  /**
+   * Maps each match to zero or more results, then flattens them.
+   */
+  flatMap<TOut>(
+    fn: (item: TItem) => TOut[] | Promise<TOut[]>,
+  ): AsyncArrayQuery<TOut> {
+    return this._pipe<TOut>(async function* (items) {
+      for await (const item of items) {
+        yield* await fn(item);
+      }
+    });
+  }
+
+  /**
+   * Returns the first `n` matches and stops reading the source after them.
+   */
+  take(n: number): AsyncArrayQuery<TItem> {
+    return this._pipe<TItem>(async function* (items) {
+      if (n <= 0) return;
+      let taken = 0;
+      for await (const item of items) {
+        yield item;
+        if (++taken >= n) return;
+      }
+    });
+  }
+
+  /**
+   * Skips the first `n` matches.
+   */
+  drop(n: number): AsyncArrayQuery<TItem> {
+    return this._pipe<TItem>(async function* (items) {
+      let skipped = 0;
+      for await (const item of items) {
+        if (skipped < n) {
+          skipped++;
+          continue;
+        }
+        yield item;
+      }
+    });
+  }
+
+  /**
+   * Returns the longest prefix of matches satisfying the predicate.
+   */
+  takeWhile(
+    fn: (item: TItem) => boolean | Promise<boolean>,
+  ): AsyncArrayQuery<TItem> {
+    return this._pipe<TItem>(async function* (items) {
+      for await (const item of items) {
+        if (!(await fn(item))) return;
+        yield item;
+      }
+    });
+  }
+
+  /**
+   * Drops the longest prefix of matches satisfying the predicate.
+   */
+  dropWhile(
+    fn: (item: TItem) => boolean | Promise<boolean>,
+  ): AsyncArrayQuery<TItem> {
+    return this._pipe<TItem>(async function* (items) {
+      let dropping = true;
+      for await (const item of items) {
+        if (dropping && (await fn(item))) continue;
+        dropping = false;
+        yield item;
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Async terminals
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Reads the source and returns all matches.
+   */
+  async all(): Promise<TItem[]> {
+    const results: TItem[] = [];
+    for await (const item of this) {
+      results.push(item);
+    }
+    return results;
+  }
+
+  /**
+   * Reads all matches into an {@link ArrayQuery}, for sorting, grouping and
+   * the rest of the synchronous API.
+   */
+  async toArrayQuery(): Promise<ArrayQuery<TItem>> {
+    return new ArrayQuery<TItem>(await this.all());
+  }
+
+  /**
+   * Returns the number of matches.
+   */
+  async count(): Promise<number> {
+    let count = 0;
+    for await (const _ of this) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Returns true if at least one item matches; stops at the first match.
+   */
+  async exists(): Promise<boolean> {
+    for await (const _ of this) {
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns the first match; stops reading the source there.
+   *
+   * @throws Error if no matches are found.
+   */
+  async first(): Promise<TItem> {
+    for await (const item of this) {
+      return item;
+    }
+    throw new Error("No matches found for first().");
+  }
+
+  /**
+   * Sums the numeric values at `path`; non-numbers count as 0.
+   */
+  async sum(path: string): Promise<number> {
+    return this.reduce((total, item) => {
+      const value = getByPath(item as any, path);
+      return total + (typeof value === "number" ? value : 0);
+    }, 0);
+  }
+
+  /**
+   * Averages the numeric values at `path` over all matches (0 if there are none).
+   */
+  async average(path: string): Promise<number> {
+    let count = 0;
+    const total = await this.reduce((sum, item) => {
+      count++;
+      const value = getByPath(item as any, path);
+      return sum + (typeof value === "number" ? value : 0);
+    }, 0);
+    return count === 0 ? 0 : total / count;
+  }
+
+  /**
+   * Returns the minimum numeric value at `path`, or null if there is none.
+   */
+  async min(path: string): Promise<number | null> {
+    return this._extreme(path, (a, b) => a < b);
+  }
+
+  /**
+   * Returns the maximum numeric value at `path`, or null if there is none.
+   */
+  async max(path: string): Promise<number | null> {
+    return this._extreme(path, (a, b) => a > b);
+  }
+
+  /**
+   * Left-folds the matches into a single value.
+   */
+  async reduce<TAcc>(
+    fn: (acc: TAcc, item: TItem) => TAcc,
+    init: TAcc,
+  ): Promise<TAcc> {
+    let acc = init;
+    for await (const item of this) {
+      acc = fn(acc, item);
+    }
+    return acc;
+  }
+
+  private async _extreme(
+    path: string,
+    better: (a: number, b: number) => boolean,
+  ): Promise<number | null> {
+    let result: number | null = null;
+    for await (const item of this) {
+      const value = getByPath(item as any, path);
+      if (value === null || value === undefined || isNaN(Number(value))) {
+        continue;
+      }
+      const num = Number(value);
+      if (result === null || better(num, result)) {
+        result = num;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Creates a query over the items produced lazily by `transform` from this query's matches.
+   *
+   * @internal
+   */
+  private _pipe<TOut>(
+    transform: (items: AsyncIterable<TItem>) => AsyncIterable<TOut>,
+  ): AsyncArrayQuery<TOut> {
+    return new AsyncArrayQuery<TOut>(() => transform(this));
+  }
+
+  /** @internal Used by {@link WhereBuilder} to append a clause. Returns a new query. */
+  _pushClause(clause: any, raw: boolean = false): AsyncArrayQuery<TItem> {
+    const next = new AsyncArrayQuery<TItem>(this.open);
+    next.clauses = [...this.clauses, clause];
+    next.rawClauses = raw
+      ? new Set([...this.rawClauses, clause])
+      : this.rawClauses;
+    return next;
+  }
+}
@@ -3,8 +3,11 @@
  * @description Main query entry point and JsonQueryRoot class.
  */
 
+import { AsyncQuerySource, AsyncSourceOptions } from "../types";
 import { getByPath } from "../helpers/path";
+import { openAsyncSource } from "../helpers/async-source";
 import { ArrayQuery } from "./array-query";
+import { AsyncArrayQuery } from "./async-array-query";
 import { ObjectGroupQuery } from "../queries/object-group-query";
 
 /**
@@ -57,6 +60,51 @@ export function query<TRoot>(root: TRoot): JsonQueryRoot<TRoot> {
   return new JsonQueryRoot(root);
 }
 
+/**
+ * Entry point for querying items that arrive asynchronously or don't fit in memory:
+ * paged API results, NDJSON logs, streamed JSON arrays.
+ *
+ * Supports `where`, `filter`, `map`, `take` and friends; terminals are async.
+ * A stream or generator can only be read by one terminal call; pass a function
+ * returning a fresh source to run several.
+ *
+ * @example Page through an endpoint
+ * ```ts
+ * async function* users() {
+ *   for (let page = 1; ; page++) {
+ *     const { items, next } = await api.get(`/users?page=${page}`);
+ *     yield* items;
+ *     if (!next) return;
+ *   }
+ * }
+ * const admin = await queryAsync(users).where('role').equals('admin').first();
+ * ```
+ *
+ * @example Count matching lines of a multi-GB NDJSON file
+ * ```ts
+ * const errors = await queryAsync(fs.createReadStream('app.ndjson'))
+ *   .filter("level == 'error' and status >= 500")
+ *   .count();
+ * ```
+ *
+ * @example Stream the elements of a JSON array
+ * ```ts
+ * const total = await queryAsync(fs.createReadStream('orders.json'), { format: 'json-array' })
+ *   .sum('amount');
+ * ```
+ *
+ * @typeParam TItem - The type of each item.
+ * @param source - Async or sync iterable, Node `Readable`, or a function returning one
+ * @param options - How to read the source (`format`)
+ * @throws Error if `format` is not a known format
+ */
+export function queryAsync<TItem = any>(
+  source: AsyncQuerySource<TItem>,
+  options?: AsyncSourceOptions,
+): AsyncArrayQuery<TItem> {
+  return new AsyncArrayQuery<TItem>(openAsyncSource(source, options));
+}
+
 /**
  * Root wrapper returned by {@link query}. Select arrays by dot-path.
  *
@@ -91,6 +139,30 @@ export class JsonQueryRoot<TRoot> {
     });
   }
 
+  /**
+   * Selects an array like {@link array} and indexes its items by one or more
+   * paths, for fast repeated `equals`, `whereIn` and range lookups. The index
+   * is built on the first call and reused by later calls on the same array.
+   * See {@link ArrayQuery.indexBy}, including its note on in-place changes.
+   *
+   * @example
+   * ```ts
+   * const users = query(resp).withIndex('users', 'id');
+   * const ann = users.where('id').equals(42).one();
+   * ```
+   *
+   * @typeParam TItem - Item type of the array.
+   * @param arrayPath - Dot-path to the array.
+   * @param paths - Field paths to index.
+   * @returns An {@link ArrayQuery} using the indexes.
+   */
+  withIndex<TItem = any>(
+    arrayPath: string,
+    ...paths: string[]
+  ): ArrayQuery<TItem> {
+    return this.array<TItem>(arrayPath).indexBy(...paths);
+  }
+
   /**
    * Select any object by path and filter its child objects.
    *
@@ -212,4 +212,228 @@ describe("WhereBuilder", () => {
       expect(result).toHaveLength(1);
     });
   });
+
+  describe("field comparisons", () => {
+    const prices = {
+      items: [
+        { id: 1, price: 120, cost: 100, list: { price: 150 } },
+        { id: 2, price: 80, cost: 100, list: { price: 80 } },
+        { id: 3, price: 100, cost: 100, list: { price: 90 } },
+        { id: 4, price: 50, list: { price: 60 } },
+      ],
+    };
+    const ids = (items: Array<{ id: number }>) => items.map((i) => i.id);
+
+    it("should compare against another field", () => {
+      const q = () => query(prices).array("items").where("price");
+      expect(ids(q().greaterThanField("cost").all())).toEqual([1]);
+      expect(ids(q().greaterThanOrEqualField("cost").all())).toEqual([1, 3]);
+      expect(ids(q().lessThanField("cost").all())).toEqual([2]);
+      expect(ids(q().lessThanOrEqualField("cost").all())).toEqual([2, 3]);
+      expect(ids(q().equalsField("cost").all())).toEqual([3]);
+    });
+
+    it("should support nested paths", () => {
+      const result = query(prices)
+        .array("items")
+        .where("price")
+        .lessThanOrEqualField("list.price")
+        .all();
+      expect(ids(result)).toEqual([1, 2, 4]);
+    });
+
+    it("should negate like the literal comparisons", () => {
+      const result = query(prices)
+        .array("items")
+        .where("price")
+        .not()
+        .greaterThanField("cost")
+        .all();
+      expect(ids(result)).toEqual([2, 3]);
+    });
+
+    it("should respect case options for string equality", () => {
+      const people = {
+        users: [
+          { first: "Ann", nick: "ann" },
+          { first: "Bob", nick: "Rob" },
+        ],
+      };
+      expect(
+        query(people).array("users").where("first").equalsField("nick").count(),
+      ).toBe(1);
+      expect(
+        query(people)
+          .array("users")
+          .where("first")
+          .caseSensitive()
+          .equalsField("nick")
+          .count(),
+      ).toBe(0);
+    });
+  });
+
+  describe(".between()", () => {
+    const prices = {
+      items: [
+        { id: 1, price: 5 },
+        { id: 2, price: 10 },
+        { id: 3, price: 15 },
+        { id: 4, price: 20 },
+        { id: 5, price: 25 },
+        { id: 6 },
+      ],
+    };
+    const ids = (items: Array<{ id: number }>) => items.map((i) => i.id);
+    const q = () => query(prices).array("items").where("price");
+
+    it("should include both bounds by default", () => {
+      expect(ids(q().between(10, 20).all())).toEqual([2, 3, 4]);
+      expect(ids(q().between(10, 20, { inclusive: "both" }).all())).toEqual([
+        2, 3, 4,
+      ]);
+    });
+
+    it("should exclude bounds per the inclusive option", () => {
+      expect(ids(q().between(10, 20, { inclusive: "left" }).all())).toEqual([
+        2, 3,
+      ]);
+      expect(ids(q().between(10, 20, { inclusive: "right" }).all())).toEqual([
+        3, 4,
+      ]);
+      expect(ids(q().between(10, 20, { inclusive: "none" }).all())).toEqual([
+        3,
+      ]);
+    });
+
+    it("should negate to the complementary range", () => {
+      expect(ids(q().not().between(10, 20).all())).toEqual([1, 5]);
+      expect(
+        ids(q().not().between(10, 20, { inclusive: "none" }).all()),
+      ).toEqual([1, 2, 4, 5]);
+    });
+
+    it("should support string and Date bounds", () => {
+      const events = {
+        events: [
+          { id: 1, on: "2024-01-01", at: new Date("2024-01-01") },
+          { id: 2, on: "2024-01-15", at: new Date("2024-01-15") },
+          { id: 3, on: "2024-02-01", at: new Date("2024-02-01") },
+        ],
+      };
+      const result = query(events)
+        .array("events")
+        .where("on")
+        .between("2024-01-01", "2024-02-01", { inclusive: "left" })
+        .all();
+      expect(ids(result)).toEqual([1, 2]);
+      const byDate = query(events)
+        .array("events")
+        .where("at")
+        .between(new Date("2024-01-10"), new Date("2024-03-01"))
+        .all();
+      expect(ids(byDate)).toEqual([2, 3]);
+    });
+
+    it("should throw when min is greater than max", () => {
+      expect(() => q().between(20, 10)).toThrow(
+        "Invalid range: min (20) is greater than max (10).",
+      );
+    });
+  });
+
+  describe("numeric tolerance", () => {
+    const amounts = {
+      items: [
+        { id: 1, amount: 19.991 },
+        { id: 2, amount: 19.999 },
+        { id: 3, amount: 20.01 },
+        { id: 4, amount: 0.1 + 0.2 },
+      ],
+    };
+    const ids = (items: Array<{ id: number }>) => items.map((i) => i.id);
+    const q = () => query(amounts).array("items").where("amount");
+
+    it("should apply decimals to every comparator", () => {
+      expect(ids(q().equals(19.99, { decimals: 2 }).all())).toEqual([1]);
+      expect(ids(q().greaterThan(20, { decimals: 2 }).all())).toEqual([3]);
+      expect(ids(q().gte(20, { decimals: 2 }).all())).toEqual([2, 3]);
+      expect(ids(q().lessThan(20, { decimals: 2 }).all())).toEqual([1, 4]);
+      expect(ids(q().lte(19.99, { decimals: 2 }).all())).toEqual([1, 4]);
+    });
+
+    it("should negate with the tolerance", () => {
+      expect(ids(q().not().greaterThan(20, { decimals: 2 }).all())).toEqual([
+        1, 2, 4,
+      ]);
+      expect(ids(q().ne(19.99, { decimals: 2 }).all())).toEqual([2, 3, 4]);
+    });
+
+    it("should support epsilon and between", () => {
+      expect(ids(q().equals(0.3, { epsilon: 1e-9 }).all())).toEqual([4]);
+      expect(ids(q().between(19.99, 20, { decimals: 2 }).all())).toEqual([
+        1, 2,
+      ]);
+    });
+
+    it("should apply tolerance to field comparisons", () => {
+      const money = {
+        items: [
+          { id: 1, price: { amount: 19.991 }, list: { amount: 19.99 } },
+          { id: 2, price: { amount: 20.5 }, list: { amount: 20 } },
+        ],
+      };
+      const result = query(money)
+        .array("items")
+        .where("price.amount")
+        .equalsField("list.amount", { decimals: 2 })
+        .all();
+      expect(ids(result)).toEqual([1]);
+      const notGreater = query(money)
+        .array("items")
+        .where("price.amount")
+        .not()
+        .greaterThanField("list.amount", { decimals: 2 })
+        .all();
+      expect(ids(notGreater)).toEqual([1]);
+    });
+
+    it("should resolve bracketed nested paths with a tolerance", () => {
+      const orders = {
+        items: [
+          { id: 1, lines: [{ price: { amount: 19.991 } }] },
+          { id: 2, lines: [{ price: { amount: 20.5 } }] },
+        ],
+      };
+      const line = () =>
+        query(orders).array("items").where("lines[0].price.amount");
+      expect(ids(line().equals(19.99, { decimals: 2 }).all())).toEqual([1]);
+      expect(ids(line().gt(20, { epsilon: 1e-9 }).all())).toEqual([2]);
+      expect(ids(line().between(19, 20, { decimals: 2 }).all())).toEqual([1]);
+      expect(ids(line().closeTo(20.5, 0.01).all())).toEqual([2]);
+      expect(ids(line().gt(20).all())).toEqual([2]);
+    });
+
+    it("should resolve bracket paths without a tolerance", () => {
+      const orders = {
+        items: [
+          { id: 1, lines: [{ sku: "A-1", qty: 1 }], max: 1 },
+          { id: 2, lines: [{ sku: "B-2", qty: 2 }], max: 3 },
+        ],
+      };
+      const line = (path: string) => query(orders).array("items").where(path);
+      expect(ids(line("lines[0].qty").equals(1).all())).toEqual([1]);
+      expect(ids(line("lines[0].qty").between(0, 2).all())).toEqual([1, 2]);
+      expect(ids(line("lines[0].qty").equalsField("max").all())).toEqual([1]);
+      expect(ids(line("lines[0].sku").equals("b-2").all())).toEqual([2]);
+      expect(ids(line("lines[0].sku").startsWith("A").all())).toEqual([1]);
+      expect(ids(line("lines[0].sku").not().equals("A-1").all())).toEqual([2]);
+    });
+
+    it("should match with closeTo()", () => {
+      expect(ids(q().closeTo(0.3, 1e-9).all())).toEqual([4]);
+      expect(ids(q().closeTo(20, 0.011).all())).toEqual([1, 2, 3]);
+      expect(ids(q().not().closeTo(20, 0.005).all())).toEqual([1, 3, 4]);
+    });
+  });
 });
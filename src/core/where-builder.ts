@@ -3,8 +3,21 @@
  * @description WhereBuilder class for fluent where clause construction.
  */
 
-import { Primitive, WhereOptions } from "../types";
+import {
+  BetweenOptions,
+  NumericTolerance,
+  Primitive,
+  RangeBound,
+  WhereOptions,
+} from "../types";
 import { escapeRegex, makeRegex } from "../helpers/regex";
+import {
+  FieldComparisonOperator,
+  fieldComparisonClause,
+} from "../helpers/compare";
+import { betweenClause } from "../helpers/range";
+import { hasTolerance, numericClause } from "../helpers/numeric";
+import { toDotPath } from "../helpers/path";
 import type { ArrayQuery } from "./array-query";
 
 /**
@@ -12,7 +25,8 @@ import type { ArrayQuery } from "./array-query";
  *
  * This controls **how** values are compared (case sensitivity, partial match mode).
  *
- * `WhereBuilder` is created via {@link ArrayQuery.where}.
+ * `WhereBuilder` is created via {@link ArrayQuery.where} (or `AsyncArrayQuery.where`),
+ * and its matchers return a new query of the same kind with the clause added.
  *
  * @example Partial, case-insensitive match
  * ```ts
@@ -34,15 +48,18 @@ import type { ArrayQuery } from "./array-query";
  * .all();
  * ```
  */
-export class WhereBuilder<TItem> {
+export class WhereBuilder<TItem, TQuery = ArrayQuery<TItem>> {
   private opts: Required<WhereOptions> = { caseInsensitive: true, trim: true };
   private negate: boolean;
+  private readonly path: string;
 
   constructor(
-    private readonly parent: ArrayQuery<TItem>,
-    private readonly path: string,
+    private readonly parent: { _pushClause(clause: any): TQuery },
+    path: string,
     negate: boolean = false,
   ) {
+    // Sift reads `lines.0.price`, not `lines[0].price`
+    this.path = toDotPath(path);
     this.negate = negate;
   }
 
@@ -123,13 +140,22 @@ export class WhereBuilder<TItem> {
    * .all();
    * ```
    *
+   * @example Numbers with decimal tolerance
+   * ```ts
+   * const results = query(resp)
+   * .array('items')
+   * .where('price')
+   * .equals(19.99, { decimals: 2 })
+   * .all();
+   * ```
+   *
    * @param value - The value to match
-   * @param options - Optional matching options (ignoreCase, trim)
+   * @param options - Optional matching options (ignoreCase, trim; decimals, epsilon, relativeEpsilon for numbers)
    */
   equals(
     value: Primitive,
-    options?: { ignoreCase?: boolean; trim?: boolean },
-  ): ArrayQuery<TItem> {
+    options?: { ignoreCase?: boolean; trim?: boolean } & NumericTolerance,
+  ): TQuery {
     if (options) {
       if (options.ignoreCase !== undefined) {
         this.opts.caseInsensitive = options.ignoreCase;
@@ -138,6 +164,13 @@ export class WhereBuilder<TItem> {
         this.opts.trim = options.trim;
       }
     }
+    if (typeof value === "number" && hasTolerance(options)) {
+      return this._pushNumericComparison(
+        this.negate ? "!=" : "==",
+        value,
+        options,
+      );
+    }
     if (typeof value === "string" && this.opts.caseInsensitive) {
       const regex = makeRegex(value, "exact", this.opts);
       return this.parent._pushClause({
@@ -155,8 +188,8 @@ export class WhereBuilder<TItem> {
    */
   eq(
     value: Primitive,
-    options?: { ignoreCase?: boolean; trim?: boolean },
-  ): ArrayQuery<TItem> {
+    options?: { ignoreCase?: boolean; trim?: boolean } & NumericTolerance,
+  ): TQuery {
     return this.equals(value, options);
   }
 
@@ -165,8 +198,8 @@ export class WhereBuilder<TItem> {
    */
   ne(
     value: Primitive,
-    options?: { ignoreCase?: boolean; trim?: boolean },
-  ): ArrayQuery<TItem> {
+    options?: { ignoreCase?: boolean; trim?: boolean } & NumericTolerance,
+  ): TQuery {
     return this.not().equals(value, options);
   }
 
@@ -197,7 +230,7 @@ export class WhereBuilder<TItem> {
   contains(
     value: string,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): ArrayQuery<TItem> {
+  ): TQuery {
     if (options) {
       if (options.ignoreCase !== undefined) {
         this.opts.caseInsensitive = options.ignoreCase;
@@ -239,7 +272,7 @@ export class WhereBuilder<TItem> {
   startsWith(
     value: string,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): ArrayQuery<TItem> {
+  ): TQuery {
     if (options) {
       if (options.ignoreCase !== undefined) {
         this.opts.caseInsensitive = options.ignoreCase;
@@ -281,7 +314,7 @@ export class WhereBuilder<TItem> {
   endsWith(
     value: string,
     options?: { ignoreCase?: boolean; trim?: boolean },
-  ): ArrayQuery<TItem> {
+  ): TQuery {
     if (options) {
       if (options.ignoreCase !== undefined) {
         this.opts.caseInsensitive = options.ignoreCase;
@@ -308,7 +341,7 @@ export class WhereBuilder<TItem> {
    * .all();
    * ```
    */
-  matches(regex: RegExp): ArrayQuery<TItem> {
+  matches(regex: RegExp): TQuery {
     return this.parent._pushClause({
       [this.path]: this.negate ? { $not: regex } : regex,
     });
@@ -326,18 +359,32 @@ export class WhereBuilder<TItem> {
    * .greaterThan(100)
    * .all();
    * ```
+   *
+   * @example With tolerance (19.999 is not greater than 20 at 2 decimals)
+   * ```ts
+   * const results = query(resp)
+   * .array('items')
+   * .where('price')
+   * .greaterThan(20, { decimals: 2 })
+   * .all();
+   * ```
+   *
+   * @param value - The value to compare against
+   * @param options - Optional tolerance (decimals, epsilon, relativeEpsilon)
    */
-  greaterThan(value: number): ArrayQuery<TItem> {
-    return this.parent._pushClause({
-      [this.path]: this.negate ? { $lte: value } : { $gt: value },
-    });
+  greaterThan(value: number, options?: NumericTolerance): TQuery {
+    return this._pushNumericComparison(
+      this.negate ? "<=" : ">",
+      value,
+      options,
+    );
   }
 
   /**
    * Alias for {@link greaterThan}.
    */
-  gt(value: number): ArrayQuery<TItem> {
-    return this.greaterThan(value);
+  gt(value: number, options?: NumericTolerance): TQuery {
+    return this.greaterThan(value, options);
   }
 
   /**
@@ -353,17 +400,19 @@ export class WhereBuilder<TItem> {
    * .all();
    * ```
    */
-  greaterThanOrEqual(value: number): ArrayQuery<TItem> {
-    return this.parent._pushClause({
-      [this.path]: this.negate ? { $lt: value } : { $gte: value },
-    });
+  greaterThanOrEqual(value: number, options?: NumericTolerance): TQuery {
+    return this._pushNumericComparison(
+      this.negate ? "<" : ">=",
+      value,
+      options,
+    );
   }
 
   /**
    * Alias for {@link greaterThanOrEqual}.
    */
-  gte(value: number): ArrayQuery<TItem> {
-    return this.greaterThanOrEqual(value);
+  gte(value: number, options?: NumericTolerance): TQuery {
+    return this.greaterThanOrEqual(value, options);
   }
 
   /**
@@ -379,17 +428,19 @@ export class WhereBuilder<TItem> {
    * .all();
    * ```
    */
-  lessThan(value: number): ArrayQuery<TItem> {
-    return this.parent._pushClause({
-      [this.path]: this.negate ? { $gte: value } : { $lt: value },
-    });
+  lessThan(value: number, options?: NumericTolerance): TQuery {
+    return this._pushNumericComparison(
+      this.negate ? ">=" : "<",
+      value,
+      options,
+    );
   }
 
   /**
    * Alias for {@link lessThan}.
    */
-  lt(value: number): ArrayQuery<TItem> {
-    return this.lessThan(value);
+  lt(value: number, options?: NumericTolerance): TQuery {
+    return this.lessThan(value, options);
   }
 
   /**
@@ -405,16 +456,220 @@ export class WhereBuilder<TItem> {
    * .all();
    * ```
    */
-  lessThanOrEqual(value: number): ArrayQuery<TItem> {
-    return this.parent._pushClause({
-      [this.path]: this.negate ? { $gt: value } : { $lte: value },
-    });
+  lessThanOrEqual(value: number, options?: NumericTolerance): TQuery {
+    return this._pushNumericComparison(
+      this.negate ? ">" : "<=",
+      value,
+      options,
+    );
   }
 
   /**
    * Alias for {@link lessThanOrEqual}.
    */
-  lte(value: number): ArrayQuery<TItem> {
-    return this.lessThanOrEqual(value);
+  lte(value: number, options?: NumericTolerance): TQuery {
+    return this.lessThanOrEqual(value, options);
+  }
+
+  /**
+   * Range comparison: matches values between `min` and `max`.
+   * Both bounds are included by default; use `inclusive` to exclude one or both.
+   * Bounds can be numbers, strings (e.g. ISO dates) or Dates.
+   * With `not()`, matches values outside the range.
+   *
+   * @example
+   * ```ts
+   * const results = query(resp)
+   * .array('items')
+   * .where('price')
+   * .between(10, 20)
+   * .all();
+   * ```
+   *
+   * @example Half-open range
+   * ```ts
+   * const results = query(resp)
+   * .array('events')
+   * .where('date')
+   * .between('2024-01-01', '2024-02-01', { inclusive: 'left' })
+   * .all();
+   * ```
+   *
+   * @param min - Lower bound
+   * @param max - Upper bound
+   * @param options - Which bounds are included (default `"both"`), and an optional numeric tolerance
+   * @throws Error if `min` is greater than `max`
+   */
+  between(min: RangeBound, max: RangeBound, options?: BetweenOptions): TQuery {
+    return this.parent._pushClause(
+      betweenClause(
+        this.path,
+        min,
+        max,
+        options?.inclusive,
+        this.negate,
+        options,
+      ),
+    );
+  }
+
+  /**
+   * Matches numbers within `epsilon` of `value` (inclusive).
+   * With `not()`, matches everything else, including non-numbers.
+   *
+   * @example
+   * ```ts
+   * const results = query(resp)
+   * .array('items')
+   * .where('total')
+   * .closeTo(0.3, 1e-9)
+   * .all();
+   * ```
+   *
+   * @param value - The expected value
+   * @param epsilon - The largest allowed absolute difference
+   */
+  closeTo(value: number, epsilon: number): TQuery {
+    return this._pushNumericComparison(this.negate ? "!=" : "==", value, {
+      epsilon,
+    });
+  }
+
+  /**
+   * Equality against another field of the same item.
+   * Strings follow the clause's `ignoreCase()` / `trim()` settings.
+   *
+   * @example
+   * ```ts
+   * const results = query(resp)
+   * .array('orders')
+   * .where('billing.country')
+   * .equalsField('shipping.country')
+   * .all();
+   * ```
+   *
+   * @param otherPath - Path of the field to compare against
+   * @param options - Optional numeric tolerance (decimals, epsilon, relativeEpsilon)
+   */
+  equalsField(otherPath: string, options?: NumericTolerance): TQuery {
+    return this._pushFieldComparison(
+      this.negate ? "!=" : "==",
+      otherPath,
+      options,
+    );
+  }
+
+  /**
+   * Greater than comparison against another field of the same item.
+   * Items where either value is missing or the types differ don't match.
+   *
+   * @example
+   * ```ts
+   * const results = query(resp)
+   * .array('items')
+   * .where('price')
+   * .greaterThanField('cost')
+   * .all();
+   * ```
+   *
+   * @param otherPath - Path of the field to compare against
+   * @param options - Optional numeric tolerance (decimals, epsilon, relativeEpsilon)
+   */
+  greaterThanField(otherPath: string, options?: NumericTolerance): TQuery {
+    return this._pushFieldComparison(
+      this.negate ? "<=" : ">",
+      otherPath,
+      options,
+    );
+  }
+
+  /**
+   * Greater than or equal comparison against another field of the same item.
+   *
+   * @param otherPath - Path of the field to compare against
+   * @param options - Optional numeric tolerance (decimals, epsilon, relativeEpsilon)
+   */
+  greaterThanOrEqualField(
+    otherPath: string,
+    options?: NumericTolerance,
+  ): TQuery {
+    return this._pushFieldComparison(
+      this.negate ? "<" : ">=",
+      otherPath,
+      options,
+    );
+  }
+
+  /**
+   * Less than comparison against another field of the same item.
+   *
+   * @param otherPath - Path of the field to compare against
+   * @param options - Optional numeric tolerance (decimals, epsilon, relativeEpsilon)
+   */
+  lessThanField(otherPath: string, options?: NumericTolerance): TQuery {
+    return this._pushFieldComparison(
+      this.negate ? ">=" : "<",
+      otherPath,
+      options,
+    );
+  }
+
+  /**
+   * Less than or equal comparison against another field of the same item.
+   *
+   * @example
+   * ```ts
+   * const results = query(resp)
+   * .array('items')
+   * .where('discountPrice')
+   * .lessThanOrEqualField('listPrice')
+   * .all();
+   * ```
+   *
+   * @param otherPath - Path of the field to compare against
+   * @param options - Optional numeric tolerance (decimals, epsilon, relativeEpsilon)
+   */
+  lessThanOrEqualField(otherPath: string, options?: NumericTolerance): TQuery {
+    return this._pushFieldComparison(
+      this.negate ? ">" : "<=",
+      otherPath,
+      options,
+    );
+  }
+
+  private _pushNumericComparison(
+    operator: FieldComparisonOperator,
+    value: number,
+    tolerance?: NumericTolerance,
+  ): TQuery {
+    if (hasTolerance(tolerance)) {
+      return this.parent._pushClause(
+        numericClause(this.path, operator, value, tolerance!),
+      );
+    }
+    const siftOperators = {
+      "==": "$eq",
+      "!=": "$ne",
+      ">": "$gt",
+      ">=": "$gte",
+      "<": "$lt",
+      "<=": "$lte",
+    };
+    return this.parent._pushClause({
+      [this.path]: { [siftOperators[operator]]: value },
+    });
+  }
+
+  private _pushFieldComparison(
+    operator: FieldComparisonOperator,
+    otherPath: string,
+    tolerance?: NumericTolerance,
+  ): TQuery {
+    return this.parent._pushClause(
+      fieldComparisonClause(this.path, operator, otherPath, {
+        ...this.opts,
+        ...tolerance,
+      }),
+    );
   }
 }
@@ -0,0 +1,146 @@
+/**
+ * @file filters/compile-filter.ts
+ * @description Compiles filter expressions into reusable, typed filter objects.
+ */
+
+import { compileClause } from "../helpers/predicate";
+import { CompiledFilter, FilterNode, FilterOptions } from "../types";
+import { expressionHasParameters } from "./filter-functions";
+import { parseFilter } from "./filter-parser";
+import {
+  filterNodeToSiftClause,
+  parseCompositeFilterExpression,
+} from "./logical-operators";
+
+/**
+ * Parses and compiles a filter expression once, so it can be validated up front
+ * and reused across many queries without re-parsing.
+ *
+ * Accepts either an expression string or a (possibly transformed) syntax tree
+ * taken from another compiled filter's `ast`.
+ *
+ * @example Compile once, reuse everywhere
+ * ```ts
+ * const activeAdults = compileFilter("status == 'Active' and age >= 18");
+ *
+ * query(respA).array('users').filter(activeAdults).all();
+ * query(respB).array('members').filter(activeAdults).count();
+ * activeAdults.test({ status: 'Active', age: 30 }); // true
+ * ```
+ *
+ * @example Placeholders bound per use
+ * ```ts
+ * const byName = compileFilter("name == :name and age > $1");
+ * query(resp).array('users').filter(byName, { params: { name: "O'Brien", 1: 30 } }).all();
+ * ```
+ *
+ * @example Inspect the syntax tree
+ * ```ts
+ * compileFilter("price > 100").ast;
+ * // => { type: 'comparison', operator: '>', field: { type: 'field', path: 'price' },
+ * //      value: { type: 'literal', value: 100 } }
+ * ```
+ *
+ * @param expression - Filter expression string or syntax tree
+ * @param options - Options applied to every use of the compiled filter (caseSensitive, trim, decimals, params)
+ * @returns A {@link CompiledFilter} that can be passed to `ArrayQuery.filter()`
+ * @throws FilterSyntaxError if the expression is invalid
+ */
+export function compileFilter<TItem = any>(
+  expression: string | FilterNode,
+  options: FilterOptions = {},
+): CompiledFilter<TItem> {
+  const ast =
+    typeof expression === "string" ? parseFilter(expression) : expression;
+
+  let query: any;
+  let test: ((item: TItem) => boolean) | undefined;
+  const compiled: CompiledFilter<TItem> = {
+    expression: typeof expression === "string" ? expression : undefined,
+    ast,
+    options,
+    get query() {
+      if (query === undefined) {
+        query = filterNodeToSiftClause(ast, options);
+      }
+      return query;
+    },
+    test: (item: TItem) => {
+      if (!test) {
+        test = compileClause(compiled.query);
+      }
+      return test(item);
+    },
+  };
+
+  // Build eagerly so errors surface at compile time, unless placeholders
+  // are left to be bound later via `filter(compiled, { params })`
+  if (options.params || !hasParameters(ast)) {
+    void compiled.query;
+  }
+  return compiled;
+}
+
+/**
+ * Returns true if the syntax tree contains `:name` / `$1` placeholders.
+ */
+function hasParameters(node: FilterNode): boolean {
+  switch (node.type) {
+    case "comparison":
+      return (
+        (node.field.type !== "field" && expressionHasParameters(node.field)) ||
+        node.value.type === "parameter" ||
+        (node.value.type === "range" &&
+          (node.value.min.type === "parameter" ||
+            node.value.max.type === "parameter"))
+      );
+    case "check":
+      return false;
+    case "quantifier":
+      return hasParameters(node.condition);
+    case "logical":
+      return node.operands.some(hasParameters);
+    case "not":
+      return hasParameters(node.operand);
+  }
+}
+
+/**
+ * Returns true if the value is a {@link CompiledFilter}.
+ *
+ * @internal
+ */
+export function isCompiledFilter(value: unknown): value is CompiledFilter {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "ast" in value &&
+    typeof (value as CompiledFilter).test === "function"
+  );
+}
+
+/**
+ * Returns the sift clause for a `filter()` argument: an expression string, or
+ * a compiled filter whose parameters may be rebound through `options.params`.
+ *
+ * @throws FilterSyntaxError if the expression is invalid
+ * @throws Error if other options are combined with a compiled filter
+ * @internal
+ */
+export function filterToClause(
+  expression: string | CompiledFilter,
+  options?: FilterOptions,
+): any {
+  if (!isCompiledFilter(expression)) {
+    return parseCompositeFilterExpression(expression, options);
+  }
+  const { params, ...rest } = options ?? {};
+  if (Object.keys(rest).length > 0) {
+    throw new Error(
+      "filter() options cannot be combined with a compiled filter. Pass them to compileFilter() instead.",
+    );
+  }
+  return params
+    ? compileFilter(expression.ast, { ...expression.options, params }).query
+    : expression.query;
+}
@@ -3,39 +3,140 @@
  * @description Utilities for parsing and converting filter expressions to sift clauses.
  */
 
+import { FilterCheck, FilterOptions } from "../types";
 import { escapeRegex } from "../helpers/regex";
+import { betweenClause } from "../helpers/range";
+import { hasTolerance, numericClause } from "../helpers/numeric";
+import { compileClause } from "../helpers/predicate";
+import {
+  FieldComparisonOperator,
+  fieldComparisonClause,
+} from "../helpers/compare";
 
 /**
- * Parses a filter expression string and extracts the field, operator, and value.
- * Supports: ==, !=, >, >=, <, <=, contains, startsWith, endsWith
+ * Path segment standing for "any element" of an array: `tags[*]` is parsed as `tags.*`.
  *
- * @example "status == 'Active'"
- * @example "price >= 1000"
- * @example "description contains 'test'"
+ * @internal
+ */
+export const WILDCARD_SEGMENT = "*";
+
+/**
+ * Converts a parsed field path into sift's dot notation.
+ * Sift already matches a path against every element of the arrays it passes
+ * through, so `[*]` segments are simply dropped.
+ *
+ * @example toSiftPath("items.*.price") // "items.price"
+ * @example toSiftPath("tags.*") // "tags"
  *
  * @internal
  */
-export function parseFilterExpression(expression: string): {
-  field: string;
-  operator: string;
-  value: any;
-} {
-  // Match patterns like: field operator value
-  // Handles: ==, !=, >=, <=, >, <, not, contains, startsWith, endsWith
-  const match = expression.match(
-    /^\s*([a-zA-Z_][a-zA-Z0-9_.]*)\s+(===?|!==?|>=|<=|>|<|not|contains|startsWith|endsWith)\s+(.+)$/,
-  );
+export function toSiftPath(path: string): string {
+  return path
+    .split(".")
+    .filter((segment) => segment !== WILDCARD_SEGMENT)
+    .join(".");
+}
 
-  if (!match) {
-    throw new Error(
-      `Invalid filter expression: "${expression}". Expected format: "field operator value" (e.g., "status == 'Active'")`,
-    );
+/**
+ * Comparison operators accepted in filter expressions, as written by the user.
+ * `not in` / `not matches` / `not between` are recognized by the parser as `not` followed by
+ * `in` / `matches` / `between`.
+ *
+ * @internal
+ */
+export const COMPARISON_OPERATORS = [
+  "==",
+  "===",
+  "!=",
+  "!==",
+  ">=",
+  "<=",
+  ">",
+  "<",
+  "not",
+  "contains",
+  "startsWith",
+  "endsWith",
+  "in",
+  "matches",
+  "between",
+  "has",
+];
+
+/**
+ * Common misspellings and other-language spellings of comparison operators.
+ */
+const OPERATOR_ALIASES: Record<string, string> = {
+  "=": "==",
+  "<>": "!=",
+  "=>": ">=",
+  "=<": "<=",
+  eq: "==",
+  ne: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  like: "contains",
+  includes: "contains",
+};
+
+/**
+ * Returns the comparison operator the user most likely meant, if any.
+ *
+ * @example suggestOperator("startswith") // "startsWith"
+ * @example suggestOperator("contians") // "contains"
+ * @example suggestOperator("=") // "=="
+ *
+ * @internal
+ */
+export function suggestOperator(text: string): string | undefined {
+  if (OPERATOR_ALIASES[text.toLowerCase()]) {
+    return OPERATOR_ALIASES[text.toLowerCase()];
   }
 
-  const [, field, operator, valueStr] = match;
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const operator of COMPARISON_OPERATORS) {
+    const distance = editDistance(text.toLowerCase(), operator.toLowerCase());
+    if (distance < bestDistance) {
+      best = operator;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= 2 && bestDistance < text.length ? best : undefined;
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
 
-  // Parse the value (handle strings in quotes and numbers)
-  let value: any;
+/**
+ * Parses the value side of a filter expression.
+ * Handles quoted strings, numbers, booleans, `null` and `undefined`;
+ * anything else is treated as an unquoted string.
+ *
+ * @example "'Active'" // "Active"
+ * @example "1000" // 1000
+ *
+ * @internal
+ */
+export function parseFilterValue(valueStr: string): any {
   const trimmedVal = valueStr.trim();
 
   if (
@@ -43,23 +144,44 @@ export function parseFilterExpression(expression: string): {
     (trimmedVal.startsWith("'") && trimmedVal.endsWith("'"))
   ) {
     // String literal
-    value = trimmedVal.slice(1, -1);
+    return trimmedVal.slice(1, -1);
   } else if (!isNaN(Number(trimmedVal)) && trimmedVal !== "") {
     // Number
-    value = Number(trimmedVal);
+    return Number(trimmedVal);
   } else if (trimmedVal === "true" || trimmedVal === "false") {
     // Boolean
-    value = trimmedVal === "true";
+    return trimmedVal === "true";
   } else if (trimmedVal === "null") {
-    value = null;
+    return null;
   } else if (trimmedVal === "undefined") {
-    value = undefined;
-  } else {
-    // Treat as string without quotes
-    value = trimmedVal;
+    return undefined;
   }
+  // Treat as string without quotes
+  return trimmedVal;
+}
 
-  return { field, operator: operator.toLowerCase(), value };
+/**
+ * Equality and ordering operators of the DSL, mapped to their {@link FieldComparisonOperator}.
+ */
+const COMPARISON_TO_FIELD_OPERATOR: Record<string, FieldComparisonOperator> = {
+  "==": "==",
+  "===": "==",
+  "!=": "!=",
+  "!==": "!=",
+  not: "!=",
+  ">": ">",
+  ">=": ">=",
+  "<": "<",
+  "<=": "<=",
+};
+
+/**
+ * Returns true if the operator can compare against a `@field` reference.
+ *
+ * @internal
+ */
+export function supportsFieldReference(operator: string): boolean {
+  return operator in COMPARISON_TO_FIELD_OPERATOR;
 }
 
 /**
@@ -72,56 +194,24 @@ export function expressionToSiftClause(
   field: string,
   operator: string,
   value: any,
-  options?: { caseSensitive?: boolean; trim?: boolean; decimals?: number },
+  options?: FilterOptions,
 ): any {
   const flags = options?.caseSensitive ? "" : "i";
   const shouldTrim = options?.trim !== false; // default true
 
+  // Numeric comparisons honor the decimals / epsilon options
+  const comparison = COMPARISON_TO_FIELD_OPERATOR[operator];
+  if (comparison && typeof value === "number" && hasTolerance(options)) {
+    return numericClause(field, comparison, value, options!);
+  }
+
   switch (operator) {
     case "==":
     case "===":
-      // Handle decimal precision for numeric comparisons
-      if (options?.decimals !== undefined && typeof value === "number") {
-        const decimals = options.decimals;
-        return {
-          [field]: {
-            $where: function (this: any) {
-              const fieldValue = this[field];
-              if (typeof fieldValue !== "number") return false;
-              const rounded1 =
-                Math.round(fieldValue * Math.pow(10, decimals)) /
-                Math.pow(10, decimals);
-              const rounded2 =
-                Math.round(value * Math.pow(10, decimals)) /
-                Math.pow(10, decimals);
-              return rounded1 === rounded2;
-            },
-          },
-        };
-      }
       return { [field]: value };
     case "!=":
     case "!==":
     case "not":
-      // Handle decimal precision for numeric comparisons
-      if (options?.decimals !== undefined && typeof value === "number") {
-        const decimals = options.decimals;
-        return {
-          [field]: {
-            $where: function (this: any) {
-              const fieldValue = this[field];
-              if (typeof fieldValue !== "number") return true;
-              const rounded1 =
-                Math.round(fieldValue * Math.pow(10, decimals)) /
-                Math.pow(10, decimals);
-              const rounded2 =
-                Math.round(value * Math.pow(10, decimals)) /
-                Math.pow(10, decimals);
-              return rounded1 !== rounded2;
-            },
-          },
-        };
-      }
       return { [field]: { $ne: value } };
     case ">":
       return { [field]: { $gt: value } };
@@ -131,6 +221,36 @@ export function expressionToSiftClause(
       return { [field]: { $lt: value } };
     case "<=":
       return { [field]: { $lte: value } };
+    case "in":
+      return { [field]: { $in: value } };
+    case "not in":
+      return { [field]: { $nin: value } };
+    case "has":
+      // An array containing the value, or every value of a list
+      return {
+        [field]: {
+          $type: "array",
+          $all: Array.isArray(value) ? value : [value],
+        },
+      };
+    case "between":
+    case "not between":
+      return betweenClause(
+        field,
+        value[0],
+        value[1],
+        "both",
+        operator === "not between",
+        options,
+      );
+    case "matches":
+    case "not matches": {
+      // Patterns without explicit flags follow the caseSensitive option
+      const regex: RegExp = value.flags
+        ? value
+        : new RegExp(value.source, flags);
+      return { [field]: operator === "matches" ? regex : { $not: regex } };
+    }
     case "contains": {
       const str = String(value);
       const processed = shouldTrim ? str.trim() : str;
@@ -150,3 +270,110 @@ export function expressionToSiftClause(
       throw new Error(`Unknown operator: "${operator}"`);
   }
 }
+
+/**
+ * Converts a field-to-field comparison (e.g. `price > @cost`) into a sift clause.
+ * Only equality and ordering operators are supported. Numbers are compared
+ * with the `decimals` / `epsilon` tolerance, if given.
+ *
+ * @internal
+ */
+export function fieldComparisonToSiftClause(
+  field: string | ((item: unknown) => unknown),
+  operator: string,
+  otherField: string,
+  options?: FilterOptions,
+): any {
+  const normalized = COMPARISON_TO_FIELD_OPERATOR[operator];
+  if (!normalized) {
+    throw new Error(
+      `Operator "${operator}" does not support field references (@${otherField}).`,
+    );
+  }
+  return fieldComparisonClause(field, normalized, otherField, {
+    decimals: options?.decimals,
+    epsilon: options?.epsilon,
+    relativeEpsilon: options?.relativeEpsilon,
+  });
+}
+
+/**
+ * Converts a value-less check (e.g. `email exists`, `tags is empty`) into a sift clause.
+ *
+ * - `exists` → `$exists`
+ * - `is null` → `$type: "null"` (a missing field is not null)
+ * - `is empty` → an empty array (`$size: 0`) or empty string
+ * - `is string|number|boolean|array` → `$type`; `is object` → a plain, non-array object
+ *
+ * Checks other than `exists` and `is array` apply to the value itself, so
+ * `[""]` is not empty and `[1, 2]` is not a number, unless the path ends in `[*]`.
+ * Negated checks match wherever the positive check does not.
+ *
+ * @internal
+ */
+export function checkToSiftClause(
+  path: string,
+  check: FilterCheck,
+  negated: boolean,
+): any {
+  const field = toSiftPath(path);
+  if (check === "exists") {
+    return { [field]: { $exists: !negated } };
+  }
+
+  // Sift also matches the elements of array values; rule the array itself out
+  const elementWise = path.endsWith(`.${WILDCARD_SEGMENT}`);
+  const scalar = (clause: any) =>
+    elementWise
+      ? clause
+      : { $and: [clause, { [field]: { $not: { $type: "array" } } }] };
+
+  let clause: any;
+  switch (check) {
+    case "array":
+      clause = { [field]: { $type: "array" } };
+      break;
+    case "empty":
+      clause = { $or: [{ [field]: { $size: 0 } }, scalar({ [field]: "" })] };
+      break;
+    case "boolean":
+      clause = scalar({ [field]: { $type: "bool" } });
+      break;
+    case "object":
+      clause = scalar({
+        [field]: {
+          $where: (value: unknown) =>
+            typeof value === "object" &&
+            value !== null &&
+            !Array.isArray(value),
+        },
+      });
+      break;
+    default:
+      clause = scalar({ [field]: { $type: check } });
+  }
+  return negated ? { $nor: [clause] } : clause;
+}
+
+/**
+ * Converts a comparison on a computed value (e.g. `price * quantity > 100`)
+ * into a sift clause. The value is computed per item and matched with the
+ * same clause a field would get, so every operator and option behaves alike.
+ *
+ * @internal
+ */
+export function computedComparisonToSiftClause(
+  evaluate: (item: unknown) => unknown,
+  operator: string,
+  value: any,
+  options?: FilterOptions,
+): any {
+  const test = compileClause(
+    expressionToSiftClause("value", operator, value, options),
+  );
+  return {
+    $where: function (this: unknown) {
+      return test({ value: evaluate(this) });
+    },
+  };
+}
@@ -0,0 +1,891 @@
+/**
+ * @file filters/filter-parser.ts
+ * @description Recursive-descent parser for composite filter expressions.
+ */
+
+import {
+  FilterArithmeticOperator,
+  FilterCallNode,
+  FilterCheck,
+  FilterCheckNode,
+  FilterComparisonNode,
+  FilterExpressionNode,
+  FilterFieldNode,
+  FilterLiteralNode,
+  FilterLiteralValue,
+  FilterNode,
+  FilterOperator,
+  FilterParameterNode,
+  FilterQuantifierNode,
+  FilterRangeNode,
+  Primitive,
+} from "../types";
+import {
+  COMPARISON_OPERATORS,
+  WILDCARD_SEGMENT,
+  parseFilterValue,
+  suggestOperator,
+  supportsFieldReference,
+} from "./filter-expression";
+import { FILTER_FUNCTIONS } from "./filter-functions";
+import { FilterSyntaxError } from "./filter-syntax-error";
+import {
+  FilterToken,
+  readStringLiteral,
+  tokenizeFilterExpression,
+} from "./filter-tokenizer";
+
+/**
+ * Parses a composite filter expression into a {@link FilterNode} tree.
+ *
+ * Grammar (lowest to highest precedence):
+ * - `a or b`
+ * - `a and b`
+ * - `not (a)`
+ * - `any path: (a)` / `all path: (a)`, where `a` applies to the elements of the array at `path`
+ * - `(a)`, a value-less check such as `field exists` or `field is not empty`,
+ *   or a single `field operator value` comparison, where `field` is a
+ *   path such as `a.b`, `items[0].price`, `tags[*]` or `headers['x-request-id']`, or a value computed
+ *   from fields with `+ - * / %` and function calls (`price * quantity`, `len(name)`), and `value` is a
+ *   scalar, a `@field` reference, a `:name` / `$1` placeholder, a list such as `('a', 'b')` or `[1, 2]`
+ *   for `in` / `not in` / `has`, a `/regex/flags` literal for `matches` / `not matches`, or
+ *   `min and max` for `between` / `not between`
+ *
+ * @example "a == 1 or b == 2 and c == 3" // a or (b and c)
+ * @example "(a == 1 or b == 2) and not (c == 3)"
+ * @example "round(price * quantity, 2) > 100"
+ *
+ * @internal
+ */
+export function parseFilter(expression: string): FilterNode {
+  const tokens = tokenizeFilterExpression(expression);
+  if (tokens.length === 0) {
+    throw new FilterSyntaxError({
+      expression,
+      position: 0,
+      reason: "No valid expressions found in filter.",
+      expected: ["field"],
+    });
+  }
+  return parseFilterTokens(expression, tokens);
+}
+
+/**
+ * Parses the tokens of a filter embedded in a longer text, such as the `where`
+ * clause of a query string, so errors point into that text.
+ *
+ * @param expression - The text the token offsets refer to
+ * @param tokens - The tokens of the filter, at least one
+ *
+ * @internal
+ */
+export function parseFilterTokens(
+  expression: string,
+  tokens: FilterToken[],
+): FilterNode {
+  return new FilterParser(expression, tokens).parse();
+}
+
+/**
+ * Reminder of the comparison format appended to malformed-comparison errors.
+ */
+const FORMAT_HINT = `Expected format: "field operator value" (e.g., "status == 'Active'").`;
+
+/**
+ * Checks that can follow `is` / `is not`.
+ */
+const IS_CHECKS: FilterCheck[] = [
+  "null",
+  "empty",
+  "string",
+  "number",
+  "boolean",
+  "array",
+  "object",
+];
+
+/**
+ * Returns true if the token is the given keyword (case-insensitive).
+ */
+function isKeyword(token: FilterToken | undefined, keyword: string): boolean {
+  return token?.kind === "word" && token.text.toLowerCase() === keyword;
+}
+
+/**
+ * Returns true if the token is one of the given arithmetic operators.
+ */
+function isArithmetic(
+  token: FilterToken | undefined,
+  operators: FilterArithmeticOperator[],
+): boolean {
+  return (
+    token?.kind === "word" &&
+    operators.includes(token.text as FilterArithmeticOperator)
+  );
+}
+
+/**
+ * Returns true if the dot-notation path contains a `[*]` segment.
+ */
+function isWildcardPath(path: string): boolean {
+  return path.split(".").includes(WILDCARD_SEGMENT);
+}
+
+/**
+ * Returns true if a computed expression reads a field through a `[*]` wildcard.
+ */
+function hasWildcardField(node: FilterExpressionNode): boolean {
+  switch (node.type) {
+    case "field":
+      return isWildcardPath(node.path);
+    case "arithmetic":
+      return hasWildcardField(node.left) || hasWildcardField(node.right);
+    case "call":
+      return node.args.some(hasWildcardField);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Recursive-descent parser state over a token list.
+ */
+class FilterParser {
+  private pos = 0;
+
+  constructor(
+    private readonly expression: string,
+    private readonly tokens: FilterToken[],
+  ) {}
+
+  parse(): FilterNode {
+    const node = this.parseOr();
+    const extra = this.tokens[this.pos];
+    if (extra) {
+      this.fail(`Unexpected "${extra.text}".`, extra, ["and", "or"]);
+    }
+    return node;
+  }
+
+  private parseOr(): FilterNode {
+    const operands = [this.parseAnd()];
+    while (isKeyword(this.tokens[this.pos], "or")) {
+      this.pos++;
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1
+      ? operands[0]
+      : { type: "logical", operator: "or", operands };
+  }
+
+  private parseAnd(): FilterNode {
+    const operands = [this.parseUnary()];
+    while (isKeyword(this.tokens[this.pos], "and")) {
+      this.pos++;
+      operands.push(this.parseUnary());
+    }
+    return operands.length === 1
+      ? operands[0]
+      : { type: "logical", operator: "and", operands };
+  }
+
+  private parseUnary(): FilterNode {
+    const token = this.tokens[this.pos];
+    const next = this.tokens[this.pos + 1];
+    if (
+      isKeyword(token, "not") &&
+      (next?.kind === "lparen" || isKeyword(next, "not"))
+    ) {
+      this.pos++;
+      return { type: "not", operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.tokens[this.pos];
+    if (!token) {
+      this.fail("Unexpected end of expression.", token, ["field", "(", "not"]);
+    }
+
+    if (token.kind === "lparen") {
+      const start = this.pos;
+      try {
+        return this.parseGroup();
+      } catch (error) {
+        // Not a group but a parenthesized operand, e.g. "(price + tax) * quantity > 100"
+        this.pos = start;
+        try {
+          return this.parseComparison();
+        } catch {
+          throw error;
+        }
+      }
+    }
+
+    const next = this.tokens[this.pos + 1];
+    if (
+      (isKeyword(token, "any") || isKeyword(token, "all")) &&
+      next?.kind === "word" &&
+      next.text.endsWith(":")
+    ) {
+      return this.parseQuantifier();
+    }
+
+    return this.parseComparison();
+  }
+
+  /**
+   * Parses `any path: (...)` / `all path: (...)`, whose condition applies to
+   * the elements of the array at `path`.
+   */
+  private parseQuantifier(): FilterQuantifierNode {
+    const quantifier = this.tokens[this.pos++].text.toLowerCase() as
+      "any" | "all";
+    const pathToken = this.tokens[this.pos];
+    const path = this.readFieldPath(pathToken.start, pathToken.end - 1);
+    if (path === undefined || isWildcardPath(path)) {
+      this.fail(
+        `Expected an array field before ":" but found "${pathToken.text}".`,
+        pathToken,
+        ["field"],
+      );
+    }
+    this.pos++;
+
+    if (this.tokens[this.pos]?.kind !== "lparen") {
+      this.fail(
+        `Expected "(" after "${quantifier} ${pathToken.text}".`,
+        this.tokens[this.pos],
+        ["("],
+      );
+    }
+    return {
+      type: "quantifier",
+      quantifier,
+      field: { type: "field", path },
+      condition: this.parseGroup(),
+    };
+  }
+
+  private parseGroup(): FilterNode {
+    const open = this.tokens[this.pos++];
+    const node = this.parseOr();
+    const closing = this.tokens[this.pos];
+    if (closing?.kind !== "rparen") {
+      this.fail(`Missing ")" for "(" at position ${open.start}.`, closing, [
+        ")",
+      ]);
+    }
+    this.pos++;
+    return node;
+  }
+
+  /**
+   * Parses a single `field operator value` comparison or value-less check.
+   */
+  private parseComparison(): FilterComparisonNode | FilterCheckNode {
+    const first = this.tokens[this.pos];
+    if (first.kind === "rparen") {
+      this.fail(`Unexpected ")".`, first, ["field", "(", "not"]);
+    }
+
+    const left = this.parseExpression();
+    const leftToken: FilterToken = {
+      ...first,
+      text: this.expression.slice(first.start, this.tokens[this.pos - 1].end),
+      end: this.tokens[this.pos - 1].end,
+    };
+    if (left.type === "literal" || left.type === "parameter") {
+      this.fail(
+        `Expected a field name but found "${leftToken.text}". ${FORMAT_HINT}`,
+        leftToken,
+        ["field"],
+      );
+    }
+    if (left.type !== "field" && hasWildcardField(left)) {
+      this.fail(
+        `Wildcard paths cannot be used in arithmetic or function calls.`,
+        leftToken,
+        ["field"],
+      );
+    }
+
+    if (left.type === "field") {
+      const check = this.parseCheck();
+      if (check) {
+        return { type: "check", field: left, ...check };
+      }
+    }
+
+    const operator = this.parseOperator(leftToken);
+    if (operator === "between" || operator === "not between") {
+      return {
+        type: "comparison",
+        operator,
+        field: left,
+        value: this.parseRange(),
+      };
+    }
+
+    const referenceToken = this.tokens[this.pos];
+    const reference = this.parseFieldReference() ?? this.parseParameter();
+    if (reference?.type === "field" && !supportsFieldReference(operator)) {
+      const name =
+        COMPARISON_OPERATORS.find((op) => op.toLowerCase() === operator) ??
+        operator;
+      this.fail(
+        `Operator "${name}" does not support field references (${referenceToken.text}). Use ==, !=, >, >=, < or <=.`,
+        referenceToken,
+        ["value"],
+      );
+    }
+    if (
+      reference?.type === "field" &&
+      left.type === "field" &&
+      isWildcardPath(left.path)
+    ) {
+      this.fail(
+        `Wildcard paths cannot be compared with another field.`,
+        leftToken,
+        ["field"],
+      );
+    }
+    if (reference) {
+      return { type: "comparison", operator, field: left, value: reference };
+    }
+
+    const next = this.tokens[this.pos];
+    const value =
+      operator === "in" ||
+      operator === "not in" ||
+      (operator === "has" &&
+        (next?.kind === "lparen" || next?.kind === "lbracket"))
+        ? this.parseList()
+        : operator === "matches" || operator === "not matches"
+          ? this.parseRegex()
+          : this.parseScalar();
+
+    return {
+      type: "comparison",
+      operator,
+      field: left,
+      value: { type: "literal", value },
+    };
+  }
+
+  /**
+   * Parses the left-hand side of a comparison: a field, or arithmetic over
+   * fields, numbers and function calls (`price * quantity`, `round(total, 2)`).
+   * `*`, `/` and `%` bind tighter than `+` and `-`.
+   */
+  private parseExpression(): FilterExpressionNode {
+    let left = this.parseTerm();
+    while (isArithmetic(this.tokens[this.pos], ["+", "-"])) {
+      const operator = this.tokens[this.pos++].text as FilterArithmeticOperator;
+      left = { type: "arithmetic", operator, left, right: this.parseTerm() };
+    }
+    return left;
+  }
+
+  private parseTerm(): FilterExpressionNode {
+    let left = this.parseFactor();
+    while (isArithmetic(this.tokens[this.pos], ["*", "/", "%"])) {
+      const operator = this.tokens[this.pos++].text as FilterArithmeticOperator;
+      left = { type: "arithmetic", operator, left, right: this.parseFactor() };
+    }
+    return left;
+  }
+
+  private parseFactor(): FilterExpressionNode {
+    const token = this.tokens[this.pos];
+    const next = this.tokens[this.pos + 1];
+    if (!token) {
+      this.fail("Unexpected end of expression.", token, ["field"]);
+    }
+
+    if (token.kind === "lparen") {
+      this.pos++;
+      const inner = this.parseExpression();
+      const closing = this.tokens[this.pos];
+      if (closing?.kind !== "rparen") {
+        this.fail(`Missing ")" for "(" at position ${token.start}.`, closing, [
+          ")",
+        ]);
+      }
+      this.pos++;
+      return inner;
+    }
+    if (token.kind === "string") {
+      this.pos++;
+      return { type: "literal", value: token.value };
+    }
+    if (
+      token.kind === "word" &&
+      next?.kind === "lparen" &&
+      next.start === token.end
+    ) {
+      return this.parseCall();
+    }
+    if (token.kind === "word" && /^-?\d/.test(token.text)) {
+      const value = Number(token.text);
+      if (!isNaN(value)) {
+        this.pos++;
+        return { type: "literal", value };
+      }
+    }
+    return this.parseParameter() ?? this.parseField();
+  }
+
+  /**
+   * Parses a function call such as `len(name)` or `round(total, 2)`.
+   */
+  private parseCall(): FilterCallNode {
+    const nameToken = this.tokens[this.pos];
+    const name = nameToken.text.toLowerCase();
+    const fn = Object.prototype.hasOwnProperty.call(FILTER_FUNCTIONS, name)
+      ? FILTER_FUNCTIONS[name]
+      : undefined;
+    if (!fn) {
+      this.fail(
+        `Unknown function "${nameToken.text}".`,
+        nameToken,
+        Object.keys(FILTER_FUNCTIONS),
+      );
+    }
+    this.pos += 2;
+
+    const args: FilterExpressionNode[] = [];
+    if (this.tokens[this.pos]?.kind !== "rparen") {
+      args.push(this.parseExpression());
+      while (this.tokens[this.pos]?.kind === "comma") {
+        this.pos++;
+        args.push(this.parseExpression());
+      }
+    }
+    const closing = this.tokens[this.pos];
+    if (closing?.kind !== "rparen") {
+      this.fail(`Expected "," or ")" in call to "${name}".`, closing, [
+        ",",
+        ")",
+      ]);
+    }
+    this.pos++;
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const arity =
+        fn.minArgs === fn.maxArgs
+          ? `${fn.minArgs}`
+          : `${fn.minArgs} to ${fn.maxArgs}`;
+      this.fail(
+        `"${name}" takes ${arity} argument(s) but got ${args.length}.`,
+        { ...nameToken, end: closing.end },
+      );
+    }
+    return { type: "call", name, args };
+  }
+
+  /**
+   * Parses a field path such as `a.b`, `items[0]` or `headers['x-request-id']`.
+   */
+  private parseField(): FilterFieldNode {
+    const first = this.tokens[this.pos];
+
+    // A path starting with a quoted key (e.g. "['x-request-id'].value") is
+    // tokenized as a list; take all tokens up to the next whitespace
+    let last = first;
+    if (first.kind === "lbracket") {
+      while (this.tokens[this.pos + 1]?.start === last.end) {
+        last = this.tokens[++this.pos];
+      }
+    }
+    const path =
+      first.kind === "word" || first.kind === "lbracket"
+        ? this.readFieldPath(first.start, last.end)
+        : undefined;
+    if (path === undefined) {
+      const text = this.expression.slice(first.start, last.end);
+      this.fail(
+        `Expected a field name but found "${text}". ${FORMAT_HINT}`,
+        { ...first, end: last.end },
+        ["field"],
+      );
+    }
+    this.pos++;
+
+    return { type: "field", path };
+  }
+
+  /**
+   * Parses a value-less check after the field, if present:
+   * `exists`, `not exists`, or `is [not] null|empty|string|number|boolean|array|object`.
+   */
+  private parseCheck(): Pick<FilterCheckNode, "check" | "negated"> | undefined {
+    const token = this.tokens[this.pos];
+    if (isKeyword(token, "exists")) {
+      this.pos++;
+      return { check: "exists", negated: false };
+    }
+    if (
+      isKeyword(token, "not") &&
+      isKeyword(this.tokens[this.pos + 1], "exists")
+    ) {
+      this.pos += 2;
+      return { check: "exists", negated: true };
+    }
+    if (!isKeyword(token, "is")) {
+      return undefined;
+    }
+    this.pos++;
+
+    const negated = isKeyword(this.tokens[this.pos], "not");
+    if (negated) this.pos++;
+    const checkToken = this.tokens[this.pos];
+    const check = IS_CHECKS.find((name) => isKeyword(checkToken, name));
+    if (!check) {
+      this.fail(
+        `Expected ${IS_CHECKS.map((name) => `"${name}"`).join(", ")} after "${negated ? "is not" : "is"}".`,
+        checkToken,
+        IS_CHECKS,
+      );
+    }
+    this.pos++;
+    return { check, negated };
+  }
+
+  /**
+   * Parses a `@path` reference to another field of the same item, if present.
+   */
+  private parseFieldReference(): FilterFieldNode | undefined {
+    const token = this.tokens[this.pos];
+    if (token?.kind !== "word" || !token.text.startsWith("@")) {
+      return undefined;
+    }
+    const path = this.readFieldPath(token.start + 1, token.end);
+    if (path === undefined) {
+      this.fail(`Invalid field reference "${token.text}".`, token, ["@field"]);
+    }
+    if (isWildcardPath(path)) {
+      this.fail(`Wildcard paths cannot be used as field references.`, token, [
+        "@field",
+      ]);
+    }
+    this.pos++;
+    return { type: "field", path };
+  }
+
+  /**
+   * Reads the field path between `start` and `end` of the expression into dot notation:
+   * `items[0].price` → `items.0.price`, `tags[*]` → `tags.*`,
+   * `headers['x-request-id']` → `headers.x-request-id`.
+   * Returns undefined if the text is not a valid path.
+   */
+  private readFieldPath(start: number, end: number): string | undefined {
+    const segments: string[] = [];
+    let i = start;
+
+    while (i < end) {
+      const rest = this.expression.slice(i, end);
+
+      if (rest.startsWith("['") || rest.startsWith('["')) {
+        const literal = readStringLiteral(this.expression, i + 1);
+        if (this.expression[literal.end] !== "]" || literal.end >= end) {
+          return undefined;
+        }
+        if (
+          literal.value.includes(".") ||
+          literal.value === WILDCARD_SEGMENT ||
+          literal.value === ""
+        ) {
+          this.fail(
+            `Quoted key "${literal.value}" cannot be empty, "*" or contain ".".`,
+            { kind: "string", text: "", start: i, end: literal.end + 1 },
+            ["key"],
+          );
+        }
+        segments.push(literal.value);
+        i = literal.end + 1;
+        continue;
+      }
+
+      const index = /^\[(\d+|\*)\]/.exec(rest);
+      if (index) {
+        if (segments.length === 0) return undefined;
+        segments.push(index[1]);
+        i += index[0].length;
+        continue;
+      }
+
+      // Identifiers; segments after a dot may also be numeric ("items.0")
+      const identifier =
+        segments.length === 0
+          ? /^[a-zA-Z_]\w*/.exec(rest)
+          : /^\.(\w+)/.exec(rest);
+      if (!identifier) return undefined;
+      segments.push(identifier[1] ?? identifier[0]);
+      i += identifier[0].length;
+    }
+
+    return segments.length > 0 ? segments.join(".") : undefined;
+  }
+
+  /**
+   * Parses the `min and max` bounds of a `between` comparison.
+   * Each bound is a single scalar or placeholder.
+   */
+  private parseRange(): FilterRangeNode {
+    const min = this.parseBound();
+    const and = this.tokens[this.pos];
+    if (!isKeyword(and, "and")) {
+      this.fail(`Expected "and" between the bounds of "between".`, and, [
+        "and",
+      ]);
+    }
+    this.pos++;
+    return { type: "range", min, max: this.parseBound() };
+  }
+
+  private parseBound(): FilterLiteralNode | FilterParameterNode {
+    const parameter = this.parseParameter();
+    if (parameter) {
+      return parameter;
+    }
+    const token = this.tokens[this.pos];
+    if (
+      (token?.kind !== "string" && token?.kind !== "word") ||
+      isKeyword(token, "and") ||
+      isKeyword(token, "or") ||
+      token.text.startsWith("@")
+    ) {
+      this.fail(`Expected a value for "between".`, token, ["value"]);
+    }
+    this.pos++;
+    return {
+      type: "literal",
+      value:
+        token.kind === "string" ? token.value : parseFilterValue(token.text),
+    };
+  }
+
+  /**
+   * Parses a `:name` or `$1` placeholder, if present. It must be the whole value.
+   */
+  private parseParameter(): FilterParameterNode | undefined {
+    const token = this.tokens[this.pos];
+    const match =
+      token?.kind === "word" &&
+      /^(?::([a-zA-Z_]\w*)|\$(\d+))$/.exec(token.text);
+    if (!match) {
+      return undefined;
+    }
+    this.pos++;
+    return { type: "parameter", name: match[1] ?? match[2] };
+  }
+
+  private parseOperator(fieldToken: FilterToken): FilterOperator {
+    const token = this.tokens[this.pos];
+    const expected = [
+      ...COMPARISON_OPERATORS,
+      "not in",
+      "not matches",
+      "not between",
+      "exists",
+      "not exists",
+      "is",
+    ];
+    if (!token) {
+      this.fail(
+        `Expected an operator after "${fieldToken.text}". ${FORMAT_HINT}`,
+        token,
+        expected,
+      );
+    }
+    if (token.kind !== "word" || !COMPARISON_OPERATORS.includes(token.text)) {
+      this.fail(
+        `Unknown operator "${token.text}".`,
+        token,
+        expected,
+        suggestOperator(token.text),
+      );
+    }
+    this.pos++;
+
+    const next = this.tokens[this.pos];
+    if (token.text === "not" && next?.kind === "word") {
+      // "not in" / "not matches" always take a list / regex, so a missing one
+      // is an error rather than "!= 'in ...'"
+      if (next.text === "in") {
+        this.pos++;
+        return "not in";
+      }
+      if (next.text === "matches") {
+        this.pos++;
+        return "not matches";
+      }
+      if (next.text === "between") {
+        this.pos++;
+        return "not between";
+      }
+    }
+
+    return token.text.toLowerCase() as FilterOperator;
+  }
+
+  /**
+   * Consumes the value tokens up to the next top-level `and`/`or` or closing
+   * parenthesis. A string literal or number must be the whole value, and is
+   * taken decoded; otherwise the tokens are taken verbatim as an unquoted string.
+   */
+  private parseScalar(): FilterLiteralValue {
+    const first = this.tokens[this.pos];
+    if (
+      first?.kind === "string" ||
+      (first?.kind === "word" &&
+        typeof parseFilterValue(first.text) === "number")
+    ) {
+      this.pos++;
+      const next = this.tokens[this.pos];
+      if (
+        next &&
+        next.kind !== "rparen" &&
+        !isKeyword(next, "and") &&
+        !isKeyword(next, "or")
+      ) {
+        this.fail(`Unexpected "${next.text}" after ${first.text}.`, next, [
+          "and",
+          "or",
+          ")",
+        ]);
+      }
+      return first.kind === "string"
+        ? first.value
+        : parseFilterValue(first.text);
+    }
+
+    let last: FilterToken | undefined;
+    let depth = 0;
+
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (
+        depth === 0 &&
+        (token.kind === "rparen" ||
+          isKeyword(token, "and") ||
+          isKeyword(token, "or"))
+      ) {
+        break;
+      }
+      if (token.kind === "lparen" || token.kind === "lbracket") depth++;
+      if (token.kind === "rparen" || token.kind === "rbracket") depth--;
+      last = token;
+      this.pos++;
+    }
+
+    if (!last) {
+      this.fail(
+        `Expected a value after "${this.tokens[this.pos - 1].text}". ${FORMAT_HINT}`,
+        first,
+        ["value"],
+      );
+    }
+    return parseFilterValue(this.expression.slice(first.start, last.end));
+  }
+
+  /**
+   * Parses a list literal: `('a', 'b')` or `[1, 2]`.
+   */
+  private parseList(): Array<Primitive | null | undefined> {
+    const open = this.tokens[this.pos];
+    if (open?.kind !== "lparen" && open?.kind !== "lbracket") {
+      this.fail(`Expected a list like ('a', 'b') after "in".`, open, [
+        "(",
+        "[",
+      ]);
+    }
+    const closeKind = open.kind === "lparen" ? "rparen" : "rbracket";
+    this.pos++;
+    if (this.tokens[this.pos]?.kind === closeKind) {
+      this.fail(`"in" requires a non-empty list.`, this.tokens[this.pos], [
+        "value",
+      ]);
+    }
+
+    const values: Array<Primitive | null | undefined> = [];
+    while (true) {
+      const item = this.tokens[this.pos];
+      if (item?.kind !== "string" && item?.kind !== "word") {
+        this.fail("Expected a list value.", item, ["value"]);
+      }
+      values.push(
+        item.kind === "string" ? item.value : parseFilterValue(item.text),
+      );
+      this.pos++;
+
+      const separator = this.tokens[this.pos];
+      if (separator?.kind === closeKind) {
+        this.pos++;
+        return values;
+      }
+      if (separator?.kind !== "comma") {
+        const close = closeKind === "rparen" ? ")" : "]";
+        this.fail(
+          `Expected "," or "${close}" for list at position ${open.start}.`,
+          separator,
+          [",", close],
+        );
+      }
+      this.pos++;
+    }
+  }
+
+  /**
+   * Parses a regex literal: `/pattern/flags`. A `/` inside the pattern is written `\/`.
+   */
+  private parseRegex(): RegExp {
+    const token = this.tokens[this.pos];
+    if (token?.kind !== "regex") {
+      this.fail(
+        `Expected a regex literal like /pattern/flags after "matches".`,
+        token,
+        ["/pattern/"],
+      );
+    }
+    this.pos++;
+
+    const closing = token.text.lastIndexOf("/");
+    const source = token.text.slice(1, closing);
+    const flags = token.text.slice(closing + 1);
+    if (!/^[imsu]*$/.test(flags)) {
+      this.fail(
+        `Unsupported regex flags "${flags}". Allowed flags: i, m, s, u.`,
+        token,
+        ["i", "m", "s", "u"],
+      );
+    }
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      this.fail(`Invalid regex literal: ${(error as Error).message}`, token);
+    }
+  }
+
+  /**
+   * Throws a {@link FilterSyntaxError} pointing at `token`, or at the end of
+   * the expression if there is no token.
+   */
+  private fail(
+    reason: string,
+    token: FilterToken | undefined,
+    expected: string[] = [],
+    suggestion?: string,
+  ): never {
+    throw new FilterSyntaxError({
+      expression: this.expression,
+      position: token?.start ?? this.expression.length,
+      length: token ? token.end - token.start : 1,
+      reason,
+      expected,
+      suggestion,
+    });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * @file filters/filter-syntax-error.ts
+ * @description Error thrown for malformed filter expressions.
+ */
+
+/**
+ * Thrown when a `filter()` expression cannot be parsed.
+ * Carries the location of the problem so it can be reported precisely.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   compileFilter("name contians 'x'");
+ * } catch (error) {
+ *   if (error instanceof FilterSyntaxError) {
+ *     error.position; // 5
+ *     error.suggestion; // "contains"
+ *     console.log(error.snippet);
+ *     // name contians 'x'
+ *     //      ^^^^^^^
+ *   }
+ * }
+ * ```
+ */
+export class FilterSyntaxError extends Error {
+  /** The full expression that failed to parse. */
+  readonly expression: string;
+  /** Zero-based character offset of the offending token. */
+  readonly position: number;
+  /** The token(s) the parser expected at `position`, if known. */
+  readonly expected: string[];
+  /** A likely correction for the offending token, if one was found. */
+  readonly suggestion?: string;
+  /** The expression with the offending token underlined by carets. */
+  readonly snippet: string;
+
+  constructor(details: {
+    expression: string;
+    position: number;
+    length?: number;
+    reason: string;
+    expected?: string[];
+    suggestion?: string;
+  }) {
+    const { expression, position, reason, suggestion } = details;
+    const length = Math.max(1, details.length ?? 1);
+    const snippet = `${expression}\n${" ".repeat(position)}${"^".repeat(length)}`;
+    const hint = suggestion ? ` Did you mean "${suggestion}"?` : "";
+
+    super(
+      `Invalid filter expression at position ${position}: ${reason}${hint}\n\n${snippet
+        .split("\n")
+        .map((line) => `  ${line}`)
+        .join("\n")}`,
+    );
+    this.name = "FilterSyntaxError";
+    this.expression = expression;
+    this.position = position;
+    this.expected = details.expected ?? [];
+    this.suggestion = suggestion;
+    this.snippet = snippet;
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * @file filters/filter-tokenizer.ts
+ * @description Tokenizer for filter expressions.
+ */
+
+import { FilterSyntaxError } from "./filter-syntax-error";
+
+/**
+ * A lexical token of a filter expression, with its character offsets.
+ *
+ * @internal
+ */
+export type FilterToken = {
+  kind:
+    | "lparen"
+    | "rparen"
+    | "lbracket"
+    | "rbracket"
+    | "comma"
+    | "string"
+    | "regex"
+    | "word";
+  text: string;
+  /** Decoded contents of a string literal. */
+  value?: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * Single-character punctuation tokens.
+ */
+const PUNCTUATION: Record<string, FilterToken["kind"]> = {
+  "(": "lparen",
+  ")": "rparen",
+  "[": "lbracket",
+  "]": "rbracket",
+  ",": "comma",
+};
+
+/**
+ * Splits a filter expression into punctuation, quoted strings, regex literals and bare words.
+ * String literals are decoded (see {@link readStringLiteral}).
+ * Quotes and `[` only open a string or list at the start of a token, so
+ * `O'Brien` and `items[0]` each stay one word.
+ *
+ * @internal
+ */
+export function tokenizeFilterExpression(expression: string): FilterToken[] {
+  const tokens: FilterToken[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (PUNCTUATION[char]) {
+      tokens.push({
+        kind: PUNCTUATION[char],
+        text: char,
+        start: i,
+        end: i + 1,
+      });
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const { value, end } = readStringLiteral(expression, i);
+      tokens.push({
+        kind: "string",
+        text: expression.slice(i, end),
+        value,
+        start: i,
+        end,
+      });
+      i = end;
+      continue;
+    }
+
+    // Regex literal: only recognized right after the "matches" operator,
+    // so unquoted values like "/api/users" elsewhere stay plain words
+    const previous = tokens[tokens.length - 1];
+    if (
+      char === "/" &&
+      previous?.kind === "word" &&
+      previous.text === "matches"
+    ) {
+      const start = i;
+      let inClass = false;
+      i++;
+      while (i < expression.length && (expression[i] !== "/" || inClass)) {
+        if (expression[i] === "\\") i++;
+        else if (expression[i] === "[") inClass = true;
+        else if (expression[i] === "]") inClass = false;
+        i++;
+      }
+      if (i >= expression.length) {
+        throw new FilterSyntaxError({
+          expression,
+          position: start,
+          length: i - start,
+          reason: "Unterminated regex literal.",
+          expected: ["/"],
+        });
+      }
+      i++;
+      while (i < expression.length && /[a-z]/i.test(expression[i])) i++;
+      tokens.push({
+        kind: "regex",
+        text: expression.slice(start, i),
+        start,
+        end: i,
+      });
+      continue;
+    }
+
+    // Bare word: brackets inside a word (e.g. "items[0]" or
+    // "headers['x-request-id']") belong to it, including quoted keys
+    const start = i;
+    let depth = 0;
+    while (i < expression.length) {
+      const c = expression[i];
+      if (/[\s(),]/.test(c) || (c === "]" && depth === 0)) break;
+      if (depth > 0 && (c === '"' || c === "'")) {
+        i = readStringLiteral(expression, i).end;
+        continue;
+      }
+      if (c === "[") depth++;
+      if (c === "]") depth--;
+      i++;
+    }
+    tokens.push({
+      kind: "word",
+      text: expression.slice(start, i),
+      start,
+      end: i,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Simple backslash escapes allowed in string literals.
+ */
+const ESCAPES: Record<string, string> = {
+  "'": "'",
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Reads the quoted string literal starting at `start` and decodes it.
+ *
+ * Supports `\'`, `\"`, `\\`, `\/`, `\n`, `\r`, `\t`, `\uXXXX`, and doubling the
+ * enclosing quote (`'O''Brien'`).
+ *
+ * @example readStringLiteral("'O\\'Brien'", 0) // { value: "O'Brien", end: 10 }
+ *
+ * @internal
+ */
+export function readStringLiteral(
+  expression: string,
+  start: number,
+): { value: string; end: number } {
+  const quote = expression[start];
+  let value = "";
+  let i = start + 1;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (char === quote) {
+      if (expression[i + 1] === quote) {
+        value += quote;
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+
+    if (char === "\\") {
+      const next = expression[i + 1];
+      if (next === "u") {
+        const hex = expression.slice(i + 2, i + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          throw new FilterSyntaxError({
+            expression,
+            position: i,
+            length: 2 + hex.length,
+            reason:
+              "Invalid unicode escape. Expected \\u followed by 4 hex digits.",
+            expected: ["\\uXXXX"],
+          });
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+      if (next === undefined || ESCAPES[next] === undefined) {
+        throw new FilterSyntaxError({
+          expression,
+          position: i,
+          length: 2,
+          reason: `Invalid escape sequence "\\${next ?? ""}".`,
+          expected: Object.keys(ESCAPES)
+            .map((key) => `\\${key}`)
+            .concat("\\uXXXX"),
+        });
+      }
+      value += ESCAPES[next];
+      i += 2;
+      continue;
+    }
+
+    value += char;
+    i++;
+  }
+
+  throw new FilterSyntaxError({
+    expression,
+    position: start,
+    length: expression.length - start,
+    reason: "Unterminated string literal.",
+    expected: [quote],
+  });
+}
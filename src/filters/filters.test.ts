@@ -0,0 +1,1254 @@
+import {
+  query,
+  compileFilter,
+  formatFilter,
+  FilterSyntaxError,
+} from "../index";
+import type { FilterOptions } from "../index";
+
+describe("Filter expressions", () => {
+  const testData = {
+    items: [
+      { id: 1, type: "Premium", price: 100, stock: 0 },
+      { id: 2, type: "Basic", price: 50, stock: 5 },
+      { id: 3, type: "Premium", price: 150, stock: 3 },
+      { id: 4, type: "Standard", price: 75, stock: 0 },
+    ],
+  };
+
+  const ids = (expression: string): number[] =>
+    query(testData)
+      .array("items")
+      .filter(expression)
+      .all()
+      .map((item) => item.id);
+
+  describe("precedence", () => {
+    it("should bind 'and' tighter than 'or'", () => {
+      expect(
+        ids("type == 'Basic' or type == 'Premium' and price > 120"),
+      ).toEqual([2, 3]);
+    });
+
+    it("should bind 'and' tighter than 'or' on the left side", () => {
+      expect(
+        ids("type == 'Premium' and price > 120 or type == 'Basic'"),
+      ).toEqual([2, 3]);
+    });
+
+    it("should treat keywords case-insensitively", () => {
+      expect(
+        ids("type == 'Basic' OR type == 'Standard' AND stock > 0"),
+      ).toEqual([2]);
+    });
+  });
+
+  describe("grouping", () => {
+    it("should respect parentheses", () => {
+      expect(
+        ids("(type == 'Basic' or type == 'Premium') and price > 120"),
+      ).toEqual([3]);
+    });
+
+    it("should support nested groups", () => {
+      expect(
+        ids(
+          "((type == 'Premium' and stock > 0) or (type == 'Standard')) and price < 160",
+        ),
+      ).toEqual([3, 4]);
+    });
+
+    it("should not split inside quoted strings", () => {
+      const data = { items: [{ name: "Salt (and pepper)" }, { name: "Salt" }] };
+      const result = query(data)
+        .array("items")
+        .filter("name == 'Salt (and pepper)' or name == 'Pepper'")
+        .all();
+      expect(result).toEqual([{ name: "Salt (and pepper)" }]);
+    });
+  });
+
+  describe("not (...)", () => {
+    it("should negate a group", () => {
+      expect(ids("not (type == 'Premium' or stock == 0)")).toEqual([2]);
+    });
+
+    it("should combine with other clauses", () => {
+      expect(ids("price >= 75 and not (type == 'Standard')")).toEqual([1, 3]);
+    });
+
+    it("should still support 'not' as a comparison operator", () => {
+      expect(ids("type not Premium")).toEqual([2, 4]);
+    });
+  });
+
+  describe("errors", () => {
+    it("should throw on unbalanced parentheses", () => {
+      expect(() => ids("(type == 'Premium'")).toThrow(/Missing "\)"/);
+      expect(() => ids("type == 'Premium')")).toThrow(/Unexpected "\)"/);
+    });
+
+    it("should throw on an empty group", () => {
+      expect(() => ids("()")).toThrow(/Invalid filter expression/);
+    });
+
+    it("should throw on a dangling logical operator", () => {
+      expect(() => ids("type == 'Premium' and")).toThrow(
+        /Invalid filter expression/,
+      );
+    });
+  });
+
+  describe("compileFilter()", () => {
+    it("should return a typed syntax tree", () => {
+      const compiled = compileFilter("price > 100 or not (type == 'Basic')");
+      expect(compiled.expression).toBe("price > 100 or not (type == 'Basic')");
+      expect(compiled.ast).toEqual({
+        type: "logical",
+        operator: "or",
+        operands: [
+          {
+            type: "comparison",
+            operator: ">",
+            field: { type: "field", path: "price" },
+            value: { type: "literal", value: 100 },
+          },
+          {
+            type: "not",
+            operand: {
+              type: "comparison",
+              operator: "==",
+              field: { type: "field", path: "type" },
+              value: { type: "literal", value: "Basic" },
+            },
+          },
+        ],
+      });
+    });
+
+    it("should be reusable across queries", () => {
+      const premium = compileFilter("type == 'Premium'");
+      const other = { rows: [{ type: "Premium" }, { type: "Basic" }] };
+      expect(query(testData).array("items").filter(premium).count()).toBe(2);
+      expect(query(other).array("rows").filter(premium).count()).toBe(1);
+      expect(query(testData).array("items").filter(premium).count()).toBe(2);
+    });
+
+    it("should expose a predicate", () => {
+      const compiled = compileFilter("price >= 100 and stock > 0");
+      expect(compiled.test({ price: 150, stock: 1 })).toBe(true);
+      expect(compiled.test({ price: 150, stock: 0 })).toBe(false);
+    });
+
+    it("should bind options at compile time", () => {
+      const compiled = compileFilter("type contains 'PREM'", {
+        caseSensitive: true,
+      });
+      expect(query(testData).array("items").filter(compiled).count()).toBe(0);
+    });
+
+    it("should compile a transformed syntax tree", () => {
+      const { ast } = compileFilter("price > 100");
+      const compiled = compileFilter({ type: "not", operand: ast });
+      expect(compiled.expression).toBeUndefined();
+      expect(query(testData).array("items").filter(compiled).count()).toBe(3);
+    });
+
+    it("should work with filterIfPresent()", () => {
+      const compiled = compileFilter("stock == 0");
+      expect(
+        query(testData).array("items").filterIfPresent(compiled).count(),
+      ).toBe(2);
+    });
+
+    it("should throw at compile time for invalid expressions", () => {
+      expect(() => compileFilter("price >")).toThrow(
+        /Invalid filter expression/,
+      );
+    });
+
+    it("should reject options passed alongside a compiled filter", () => {
+      const compiled = compileFilter("price > 100");
+      expect(() =>
+        query(testData).array("items").filter(compiled, { trim: false }),
+      ).toThrow(/compileFilter/);
+    });
+  });
+
+  describe("in / not in", () => {
+    it("should match values in a parenthesized list", () => {
+      expect(ids("type in ('Basic', 'Standard')")).toEqual([2, 4]);
+    });
+
+    it("should match values in a bracketed list", () => {
+      expect(ids("price in [50, 150]")).toEqual([2, 3]);
+    });
+
+    it("should exclude values with 'not in'", () => {
+      expect(ids("type not in ('Basic','Standard')")).toEqual([1, 3]);
+    });
+
+    it("should support lists inside composites", () => {
+      expect(
+        ids("type in ('Premium', 'Basic') and stock > 0 or id in [4]"),
+      ).toEqual([2, 3, 4]);
+    });
+
+    it("should not split on keywords or commas inside quoted list values", () => {
+      const data = {
+        items: [{ name: "a and b" }, { name: "c, d" }, { name: "e" }],
+      };
+      const result = query(data)
+        .array("items")
+        .filter("name in ['a and b', \"c, d\"]")
+        .all();
+      expect(result).toHaveLength(2);
+    });
+
+    it("should map to $in / $nin", () => {
+      expect(compileFilter("type in ('A', 'B')").query).toEqual({
+        type: { $in: ["A", "B"] },
+      });
+      expect(compileFilter("id not in [1, 2]").query).toEqual({
+        id: { $nin: [1, 2] },
+      });
+    });
+
+    it("should throw on empty or malformed lists", () => {
+      expect(() => ids("type in ()")).toThrow(/non-empty list/);
+      expect(() => ids("type in ('a' 'b')")).toThrow(/Expected ","/);
+      expect(() => ids("type in 'a'")).toThrow(/Expected a list/);
+    });
+
+    it("should require a list after 'not in'", () => {
+      for (const expression of ["type not in 'a'", "type not in"]) {
+        expect(() => compileFilter(expression)).toThrow(FilterSyntaxError);
+        expect(() => compileFilter(expression)).toThrow(/Expected a list/);
+      }
+      const error = (() => {
+        try {
+          compileFilter("type not in 'a'");
+        } catch (error) {
+          return error as FilterSyntaxError;
+        }
+      })();
+      expect(error?.position).toBe(12);
+      expect(error?.expected).toEqual(["(", "["]);
+      expect(
+        compileFilter("type not in :types", { params: { types: ["a"] } }).query,
+      ).toEqual({ type: { $nin: ["a"] } });
+    });
+  });
+
+  describe("field references", () => {
+    const orders = {
+      orders: [
+        { id: 1, discountPrice: 90, listPrice: 100, total: { net: 90 } },
+        { id: 2, discountPrice: 110, listPrice: 100, total: { net: 100 } },
+        { id: 3, discountPrice: 100, listPrice: 100, total: { net: 95 } },
+      ],
+    };
+    const orderIds = (expression: string): number[] =>
+      query(orders)
+        .array("orders")
+        .filter(expression)
+        .all()
+        .map((order) => order.id);
+
+    it("should compare two fields with every comparison operator", () => {
+      expect(orderIds("discountPrice <= @listPrice")).toEqual([1, 3]);
+      expect(orderIds("discountPrice < @listPrice")).toEqual([1]);
+      expect(orderIds("discountPrice > @listPrice")).toEqual([2]);
+      expect(orderIds("discountPrice >= @listPrice")).toEqual([2, 3]);
+      expect(orderIds("discountPrice == @listPrice")).toEqual([3]);
+      expect(orderIds("discountPrice != @listPrice")).toEqual([1, 2]);
+    });
+
+    it("should support nested paths and composites", () => {
+      expect(
+        orderIds("total.net == @discountPrice or discountPrice > @listPrice"),
+      ).toEqual([1, 2]);
+    });
+
+    it("should keep quoted '@' values as strings", () => {
+      const data = { users: [{ handle: "@cost" }, { handle: "cost" }] };
+      expect(
+        query(data).array("users").filter("handle == '@cost'").count(),
+      ).toBe(1);
+    });
+
+    it("should expose the reference in the syntax tree", () => {
+      expect(compileFilter("price > @cost").ast).toEqual({
+        type: "comparison",
+        operator: ">",
+        field: { type: "field", path: "price" },
+        value: { type: "field", path: "cost" },
+      });
+    });
+
+    it("should reject operators that don't support references", () => {
+      expect(() => compileFilter("name contains @nick")).toThrow(
+        /does not support field references/,
+      );
+      for (const expression of [
+        "name contains @nick",
+        "name startsWith @nick",
+        "name endsWith @nick",
+        "name in @nicks",
+        "name not in @nicks",
+        "tags has @tag",
+        "name matches @pattern",
+        "name not matches @pattern",
+        "price between @min and @max",
+      ]) {
+        const error = (() => {
+          try {
+            compileFilter(expression);
+          } catch (error) {
+            return error;
+          }
+        })();
+        expect(error).toBeInstanceOf(FilterSyntaxError);
+        expect((error as FilterSyntaxError).position).toBe(
+          expression.indexOf("@"),
+        );
+        expect((error as FilterSyntaxError).expected).toEqual(["value"]);
+      }
+      expect(() => compileFilter("name not matches 'x'")).toThrow(
+        /Expected a regex literal/,
+      );
+    });
+  });
+
+  describe("matches", () => {
+    const files = {
+      files: [
+        { id: 1, path: "/api/users/42", name: "Report.PDF" },
+        { id: 2, path: "/api/orders", name: "notes.txt" },
+        { id: 3, path: "/static/app.js", name: "report.pdf" },
+      ],
+    };
+    const fileIds = (
+      expression: string,
+      options?: { caseSensitive?: boolean },
+    ) =>
+      query(files)
+        .array("files")
+        .filter(expression, options)
+        .all()
+        .map((file) => file.id);
+
+    it("should match a regex literal", () => {
+      expect(fileIds("name matches /^report\\.pdf$/")).toEqual([1, 3]);
+    });
+
+    it("should negate with 'not matches'", () => {
+      expect(fileIds("name not matches /\\.pdf$/")).toEqual([2]);
+    });
+
+    it("should follow the caseSensitive option when no flags are given", () => {
+      expect(
+        fileIds("name matches /^report/", { caseSensitive: true }),
+      ).toEqual([3]);
+    });
+
+    it("should use explicit flags as given", () => {
+      expect(
+        fileIds("name matches /^REPORT/i", { caseSensitive: true }),
+      ).toEqual([1, 3]);
+    });
+
+    it("should support escaped slashes and keywords inside the pattern", () => {
+      expect(fileIds("path matches /^\\/api\\/(users|orders)/")).toEqual([
+        1, 2,
+      ]);
+      expect(fileIds("path matches /users or orders/ or id == 3")).toEqual([3]);
+    });
+
+    it("should keep '/' values as plain strings for other operators", () => {
+      expect(fileIds("path == /api/orders")).toEqual([2]);
+    });
+
+    it("should reject invalid regex literals", () => {
+      expect(() => fileIds("name matches 'report'")).toThrow(
+        /Expected a regex literal/,
+      );
+      expect(() => fileIds("name matches /report")).toThrow(
+        /Unterminated regex literal/,
+      );
+      expect(() => fileIds("name matches /a/g")).toThrow(
+        /Unsupported regex flags/,
+      );
+      expect(() => fileIds("name matches /(/")).toThrow(
+        /Invalid regex literal/,
+      );
+    });
+  });
+
+  describe("FilterSyntaxError", () => {
+    const syntaxError = (expression: string): FilterSyntaxError => {
+      try {
+        compileFilter(expression);
+      } catch (error) {
+        if (error instanceof FilterSyntaxError) return error;
+        throw error;
+      }
+      throw new Error(`Expected "${expression}" to fail`);
+    };
+
+    it("should report the expression, position and expected tokens", () => {
+      const error = syntaxError("type == 'Premium' and (price > 10");
+      expect(error.expression).toBe("type == 'Premium' and (price > 10");
+      expect(error.position).toBe(error.expression.length);
+      expect(error.expected).toEqual([")"]);
+    });
+
+    it("should underline the offending token", () => {
+      const error = syntaxError("name contians 'x'");
+      expect(error.position).toBe(5);
+      expect(error.snippet).toBe("name contians 'x'\n     ^^^^^^^^");
+      expect(error.message).toContain("  name contians 'x'\n       ^^^^^^^^");
+    });
+
+    it("should suggest misspelled operators", () => {
+      expect(syntaxError("name contians 'x'").suggestion).toBe("contains");
+      expect(syntaxError("name startswith 'A'").suggestion).toBe("startsWith");
+      expect(syntaxError("status = 'Active'").suggestion).toBe("==");
+      expect(syntaxError("status = 'Active'").message).toMatch(
+        /Did you mean "=="\?/,
+      );
+    });
+
+    it("should not suggest anything for unrelated words", () => {
+      expect(syntaxError("name Alice").suggestion).toBeUndefined();
+    });
+
+    it("should point at the end for incomplete expressions", () => {
+      const error = syntaxError("price >");
+      expect(error.position).toBe(7);
+      expect(error.expected).toEqual(["value"]);
+      expect(error.message).toMatch(/Expected a value after ">"/);
+    });
+
+    it("should reject tokens after a quoted or numeric value", () => {
+      const error = syntaxError("status == 'Active' orderby price");
+      expect(error.position).toBe(19);
+      expect(error.expected).toEqual(["and", "or", ")"]);
+      expect(error.message).toMatch(/Unexpected "orderby" after 'Active'/);
+      expect(syntaxError("(price > 10 20)").position).toBe(12);
+      expect(compileFilter("name == John Smith").query).toEqual({
+        name: "John Smith",
+      });
+    });
+
+    it("should report unterminated strings at their opening quote", () => {
+      const error = syntaxError("name == 'Alice and age > 3");
+      expect(error.position).toBe(8);
+      expect(error.message).toMatch(/Unterminated string literal/);
+    });
+
+    it("should be thrown by filter()", () => {
+      expect(() =>
+        query(testData).array("items").filter("price => 100"),
+      ).toThrow(FilterSyntaxError);
+    });
+  });
+
+  describe("parameters", () => {
+    const people = {
+      people: [
+        { id: 1, name: "O'Brien", age: 40, tags: "a and b" },
+        { id: 2, name: "Smith", age: 25, tags: "c" },
+        { id: 3, name: "O'Brien", age: 20, tags: "d" },
+      ],
+    };
+    const peopleIds = (expression: any, params?: Record<string, unknown>) =>
+      query(people)
+        .array("people")
+        .filter(expression, params && { params })
+        .all()
+        .map((person) => person.id);
+
+    it("should bind named and positional parameters", () => {
+      expect(
+        peopleIds("name == :name and age > $1", { name: "O'Brien", 1: 30 }),
+      ).toEqual([1]);
+    });
+
+    it("should never re-tokenize parameter values", () => {
+      expect(peopleIds("tags == :tags", { tags: "a and b" })).toEqual([1]);
+      expect(
+        peopleIds("name == :name", { name: "x' or name == 'Smith" }),
+      ).toEqual([]);
+    });
+
+    it("should bind arrays for in and RegExps for matches", () => {
+      expect(peopleIds("id in :ids", { ids: [1, 3] })).toEqual([1, 3]);
+      expect(peopleIds("name matches :re", { re: /^s/i })).toEqual([2]);
+    });
+
+    it("should bind with filterIfPresent()", () => {
+      const result = query(people)
+        .array("people")
+        .filterIfPresent("age < $1", { params: { 1: 30 } })
+        .count();
+      expect(result).toBe(2);
+    });
+
+    it("should rebind a compiled filter per use", () => {
+      const olderThan = compileFilter("age > $1");
+      expect(olderThan.ast).toEqual({
+        type: "comparison",
+        operator: ">",
+        field: { type: "field", path: "age" },
+        value: { type: "parameter", name: "1" },
+      });
+      expect(peopleIds(olderThan, { 1: 30 })).toEqual([1]);
+      expect(peopleIds(olderThan, { 1: 22 })).toEqual([1, 2]);
+    });
+
+    it("should throw for missing or mistyped parameters", () => {
+      expect(() => peopleIds("name == :name")).toThrow(
+        /Missing value for filter parameter ":name"/,
+      );
+      expect(() => peopleIds("age > $2", { 1: 30 })).toThrow(/"\$2"/);
+      expect(() => peopleIds("id in :ids", { ids: 1 })).toThrow(
+        /must be an array/,
+      );
+      expect(() => compileFilter("age > $1").test({ age: 1 })).toThrow(
+        /Missing value/,
+      );
+    });
+
+    it("should reject operator objects and other non-literal values", () => {
+      const injections: Array<[string, unknown]> = [
+        ["name == :n", { $ne: null }],
+        ["name == :n", { $where: "true" }],
+        ["name != :n", { $exists: true }],
+        ["age > :n", { $gt: 0 }],
+        ["name == :n", ["O'Brien"]],
+        ["name == :n", /Smith/],
+        ["len(name) > :n", { valueOf: () => 1 }],
+        ["id in :n", [{ $ne: null }]],
+        ["tags has :n", { $exists: true }],
+        ["name matches :n", "Smith"],
+        ["age between :n and 50", { $gt: 0 }],
+      ];
+      for (const [expression, n] of injections) {
+        expect(() => peopleIds(expression, { n })).toThrow(
+          /Filter parameter ":n" must be/,
+        );
+      }
+      expect(peopleIds("tags has :n", { n: ["c"] })).toEqual([]);
+      expect(peopleIds("age between :n and 30", { n: 20 })).toEqual([2, 3]);
+    });
+  });
+
+  describe("string literals", () => {
+    const names = {
+      people: [
+        { id: 1, name: "O'Brien", quote: 'say "hi"' },
+        { id: 2, name: "back\\slash", quote: "line\nbreak" },
+        { id: 3, name: "Zoë", quote: "a and b" },
+      ],
+    };
+    const nameIds = (expression: string) =>
+      query(names)
+        .array("people")
+        .filter(expression)
+        .all()
+        .map((person) => person.id);
+
+    it("should decode backslash-escaped quotes", () => {
+      expect(nameIds("name == 'O\\'Brien'")).toEqual([1]);
+      expect(nameIds('quote == "say \\"hi\\""')).toEqual([1]);
+    });
+
+    it("should decode doubled quotes", () => {
+      expect(nameIds("name == 'O''Brien'")).toEqual([1]);
+      expect(nameIds('quote == "say ""hi"""')).toEqual([1]);
+    });
+
+    it("should decode backslashes, newlines and unicode escapes", () => {
+      expect(nameIds("name == 'back\\\\slash'")).toEqual([2]);
+      expect(nameIds("quote == 'line\\nbreak'")).toEqual([2]);
+      expect(nameIds("name == 'Zo\\u00eb'")).toEqual([3]);
+    });
+
+    it("should handle mixed quoting in composite expressions", () => {
+      expect(
+        nameIds(
+          `name == 'O\\'Brien' or quote == "a and b" or name == "back\\\\slash"`,
+        ),
+      ).toEqual([1, 2, 3]);
+      expect(
+        nameIds(`quote == 'say "hi"' and name == "O'Brien" or id == 3`),
+      ).toEqual([1, 3]);
+      expect(nameIds(`name in ('O''Brien', "Zo\\u00eb")`)).toEqual([1, 3]);
+    });
+
+    it("should reject invalid escapes with their position", () => {
+      expect(() => nameIds("name == 'C:\\temp\\x'")).toThrow(
+        /position 16: Invalid escape sequence "\\x"/,
+      );
+      expect(() => nameIds("name == '\\u00g1'")).toThrow(
+        /Invalid unicode escape/,
+      );
+    });
+  });
+
+  describe("bracket and wildcard paths", () => {
+    const orders = {
+      orders: [
+        {
+          id: 1,
+          items: [{ price: 5 }, { price: 50 }],
+          tags: ["rush", "gift"],
+          headers: { "x-request-id": "abc", "content type": "json" },
+          "order-no": "A1",
+        },
+        {
+          id: 2,
+          items: [{ price: 120 }],
+          tags: ["gift"],
+          headers: { "x-request-id": "def", "content type": "xml" },
+          "order-no": "B2",
+        },
+      ],
+    };
+    const orderIds = (expression: string) =>
+      query(orders)
+        .array("orders")
+        .filter(expression)
+        .all()
+        .map((order) => order.id);
+
+    it("should filter by array index", () => {
+      expect(orderIds("items[0].price > 10")).toEqual([2]);
+      expect(orderIds("items[1].price == 50")).toEqual([1]);
+      expect(orderIds("items.0.price < 10")).toEqual([1]);
+    });
+
+    it("should treat [*] as any element", () => {
+      expect(orderIds("items[*].price > 100")).toEqual([2]);
+      expect(orderIds("items[*].price == 50")).toEqual([1]);
+      expect(orderIds("tags[*] == 'rush'")).toEqual([1]);
+      expect(orderIds("tags[*] in ('gift', 'sale')")).toEqual([1, 2]);
+      expect(orderIds("tags[*] startsWith 'ru'")).toEqual([1]);
+    });
+
+    it("should support quoted keys", () => {
+      expect(orderIds("headers['x-request-id'] == 'def'")).toEqual([2]);
+      expect(orderIds(`headers["content type"] == 'json'`)).toEqual([1]);
+      expect(orderIds("['order-no'] == 'A1'")).toEqual([1]);
+      expect(
+        orderIds("['order-no'] == 'B2' or headers['x-request-id'] == 'abc'"),
+      ).toEqual([1, 2]);
+    });
+
+    it("should support bracket paths in field references", () => {
+      expect(orderIds("items[0].price < @items[1].price")).toEqual([1]);
+      expect(orderIds("['order-no'] != @headers['x-request-id']")).toEqual([
+        1, 2,
+      ]);
+    });
+
+    it("should reject malformed paths", () => {
+      expect(() => orderIds("items[0 == 1")).toThrow(FilterSyntaxError);
+      expect(() => orderIds("items[x] == 1")).toThrow(
+        /Expected a field name but found "items\[x\]"/,
+      );
+      expect(() => orderIds("headers['a.b'] == 1")).toThrow(
+        /Quoted key "a.b" cannot be empty/,
+      );
+      expect(() => orderIds("tags[*] == @id")).toThrow(
+        /Wildcard paths cannot be compared with another field/,
+      );
+    });
+  });
+
+  describe("exists / is checks", () => {
+    const records = {
+      records: [
+        { id: 1, value: "text", tags: [] },
+        { id: 2, value: 42, tags: ["a"] },
+        { id: 3, value: null, tags: [""] },
+        { id: 4, value: true },
+        { id: 5, value: [1, 2], tags: ["b"] },
+        { id: 6, value: { nested: 1 } },
+        { id: 7, value: "" },
+      ],
+    };
+    const recordIds = (expression: string) =>
+      query(records)
+        .array("records")
+        .filter(expression)
+        .all()
+        .map((record) => record.id);
+
+    it("should check whether a field exists", () => {
+      expect(recordIds("tags exists")).toEqual([1, 2, 3, 5]);
+      expect(recordIds("tags not exists")).toEqual([4, 6, 7]);
+      expect(recordIds("value exists")).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it("should check for null without matching missing fields", () => {
+      expect(recordIds("value is null")).toEqual([3]);
+      expect(recordIds("value is not null")).toEqual([1, 2, 4, 5, 6, 7]);
+      expect(recordIds("missing is null")).toEqual([]);
+    });
+
+    it("should check for empty arrays and strings", () => {
+      expect(recordIds("tags is empty")).toEqual([1]);
+      expect(recordIds("value is empty")).toEqual([7]);
+      expect(recordIds("tags exists and tags is not empty")).toEqual([2, 3, 5]);
+    });
+
+    it("should check value types", () => {
+      expect(recordIds("value is string")).toEqual([1, 7]);
+      expect(recordIds("value is number")).toEqual([2]);
+      expect(recordIds("value is boolean")).toEqual([4]);
+      expect(recordIds("value is array")).toEqual([5]);
+      expect(recordIds("value is object")).toEqual([6]);
+      expect(recordIds("value is not string")).toEqual([2, 3, 4, 5, 6]);
+    });
+
+    it("should check array elements only through [*]", () => {
+      expect(recordIds("tags is string")).toEqual([]);
+      expect(recordIds("tags[*] is string")).toEqual([2, 3, 5]);
+      expect(recordIds("tags[*] is empty")).toEqual([1, 3]);
+      expect(recordIds("value[*] is number")).toEqual([2, 5]);
+    });
+
+    it("should combine with other clauses", () => {
+      expect(
+        recordIds("(value is number or value is boolean) and id < 5"),
+      ).toEqual([2, 4]);
+      expect(recordIds("not (value exists and value is string)")).toEqual([
+        2, 3, 4, 5, 6,
+      ]);
+      expect(recordIds("tags is array and value is not null")).toEqual([
+        1, 2, 5,
+      ]);
+    });
+
+    it("should expose checks in the syntax tree", () => {
+      expect(compileFilter("email is not null").ast).toEqual({
+        type: "check",
+        check: "null",
+        field: { type: "field", path: "email" },
+        negated: true,
+      });
+    });
+
+    it("should reject unknown checks", () => {
+      expect(() => recordIds("value is date")).toThrow(
+        /Expected "null", "empty", "string", "number", "boolean", "array", "object" after "is"/,
+      );
+      expect(() => recordIds("value is")).toThrow(FilterSyntaxError);
+    });
+  });
+
+  describe("between", () => {
+    const prices = {
+      items: [
+        { id: 1, price: 5, on: "2024-01-01" },
+        { id: 2, price: 10, on: "2024-01-15" },
+        { id: 3, price: 15, on: "2024-02-01" },
+        { id: 4, price: 20, on: "2024-02-15" },
+      ],
+    };
+    const priceIds = (expression: string, options?: FilterOptions) =>
+      query(prices)
+        .array("items")
+        .filter(expression, options)
+        .all()
+        .map((item) => item.id);
+
+    it("should include both bounds", () => {
+      expect(priceIds("price between 10 and 20")).toEqual([2, 3, 4]);
+      expect(priceIds("on between '2024-01-10' and '2024-02-01'")).toEqual([
+        2, 3,
+      ]);
+    });
+
+    it("should negate with 'not between'", () => {
+      expect(priceIds("price not between 10 and 15")).toEqual([1, 4]);
+      expect(priceIds("not (price between 10 and 15)")).toEqual([1, 4]);
+    });
+
+    it("should not confuse the bounds' 'and' with a logical 'and'", () => {
+      expect(priceIds("price between 5 and 15 and id > 1")).toEqual([2, 3]);
+      expect(
+        priceIds("id == 4 or price between 5 and 10 and on == '2024-01-15'"),
+      ).toEqual([2, 4]);
+    });
+
+    it("should bind placeholders as bounds", () => {
+      expect(
+        priceIds("price between :min and $1", { params: { min: 6, 1: 15 } }),
+      ).toEqual([2, 3]);
+    });
+
+    it("should expose the range in the syntax tree", () => {
+      expect(compileFilter("price between 1 and :max").ast).toEqual({
+        type: "comparison",
+        operator: "between",
+        field: { type: "field", path: "price" },
+        value: {
+          type: "range",
+          min: { type: "literal", value: 1 },
+          max: { type: "parameter", name: "max" },
+        },
+      });
+    });
+
+    it("should reject malformed ranges", () => {
+      expect(() => priceIds("price between 10 or 20")).toThrow(
+        /Expected "and" between the bounds of "between"/,
+      );
+      expect(() => priceIds("price between 10 and")).toThrow(
+        /Expected a value for "between"/,
+      );
+      expect(() => priceIds("price between 20 and 10")).toThrow(
+        /min \(20\) is greater than max \(10\)/,
+      );
+    });
+  });
+
+  describe("numeric tolerance", () => {
+    const amounts = {
+      amounts: [
+        { id: 1, amount: 19.991 },
+        { id: 2, amount: 19.999 },
+        { id: 3, amount: 20.004 },
+        { id: 4, amount: 20.01 },
+        { id: 5, amount: 0.1 + 0.2 },
+        { id: 6, amount: "20" },
+      ],
+    };
+    const amountIds = (expression: string, options?: FilterOptions) =>
+      query(amounts)
+        .array("amounts")
+        .filter(expression, options)
+        .all()
+        .map((item) => item.id);
+
+    it("should round both sides for equality with decimals", () => {
+      expect(amountIds("amount == 19.99", { decimals: 2 })).toEqual([1]);
+      expect(amountIds("amount == 20", { decimals: 2 })).toEqual([2, 3]);
+      expect(amountIds("amount != 20", { decimals: 2 })).toEqual([1, 4, 5, 6]);
+    });
+
+    it("should apply decimals to ordering operators", () => {
+      expect(amountIds("amount > 20", { decimals: 2 })).toEqual([4]);
+      expect(amountIds("amount >= 20", { decimals: 2 })).toEqual([2, 3, 4]);
+      expect(amountIds("amount < 20", { decimals: 2 })).toEqual([1, 5]);
+      expect(amountIds("amount <= 20", { decimals: 2 })).toEqual([1, 2, 3, 5]);
+    });
+
+    it("should support absolute and relative epsilon", () => {
+      expect(amountIds("amount == 0.3")).toEqual([]);
+      expect(amountIds("amount == 0.3", { epsilon: 1e-9 })).toEqual([5]);
+      expect(amountIds("amount > 0.3", { epsilon: 1e-9 })).toEqual([
+        1, 2, 3, 4,
+      ]);
+      expect(amountIds("amount == 20", { epsilon: 0.005 })).toEqual([2, 3]);
+      expect(amountIds("amount == 20", { relativeEpsilon: 0.0003 })).toEqual([
+        2, 3,
+      ]);
+    });
+
+    it("should apply tolerance to between", () => {
+      expect(amountIds("amount between 19.99 and 20", { decimals: 2 })).toEqual(
+        [1, 2, 3],
+      );
+      expect(
+        amountIds("amount not between 19.99 and 20", { decimals: 2 }),
+      ).toEqual([4, 5]);
+    });
+  });
+
+  describe("numeric tolerance on nested paths", () => {
+    const orders = {
+      orders: [
+        {
+          id: 1,
+          price: { amount: 19.991, currency: "USD" },
+          list: { amount: 19.99 },
+          lines: [{ price: { amount: 5.004 } }, { price: { amount: 14.987 } }],
+          totals: { "grand-total": 19.991 },
+        },
+        {
+          id: 2,
+          price: { amount: 20.004, currency: "EUR" },
+          list: { amount: 25 },
+          lines: [{ price: { amount: 20.004 } }],
+          totals: { "grand-total": 20.004 },
+        },
+      ],
+    };
+    const orderIds = (expression: string, options?: FilterOptions) =>
+      query(orders)
+        .array("orders")
+        .filter(expression, options)
+        .all()
+        .map((order) => order.id);
+
+    it("should resolve dotted paths", () => {
+      expect(orderIds("price.amount == 19.99", { decimals: 2 })).toEqual([1]);
+      expect(orderIds("price.amount != 19.99", { decimals: 2 })).toEqual([2]);
+      expect(orderIds("price.amount >= 20", { decimals: 2 })).toEqual([2]);
+      expect(
+        orderIds("price.amount == 20 and price.currency == 'EUR'", {
+          decimals: 2,
+        }),
+      ).toEqual([2]);
+    });
+
+    it("should resolve bracket indices, wildcards and quoted keys", () => {
+      expect(orderIds("lines[0].price.amount == 5", { decimals: 2 })).toEqual([
+        1,
+      ]);
+      expect(orderIds("lines[1].price.amount < 15", { decimals: 2 })).toEqual([
+        1,
+      ]);
+      expect(
+        orderIds("lines[*].price.amount == 14.99", { decimals: 2 }),
+      ).toEqual([1]);
+      expect(
+        orderIds("totals['grand-total'] == 20", { epsilon: 0.005 }),
+      ).toEqual([2]);
+    });
+
+    it("should compare two nested fields with the tolerance", () => {
+      expect(orderIds("price.amount == @list.amount")).toEqual([]);
+      expect(orderIds("price.amount == @list.amount", { decimals: 2 })).toEqual(
+        [1],
+      );
+      expect(
+        orderIds("lines[0].price.amount < @list.amount", { decimals: 2 }),
+      ).toEqual([1, 2]);
+      expect(
+        orderIds("totals['grand-total'] <= @list.amount", { decimals: 2 }),
+      ).toEqual([1, 2]);
+    });
+  });
+
+  describe("arithmetic and functions", () => {
+    const lines = {
+      lines: [
+        {
+          id: 1,
+          name: "Widget",
+          code: "ABC",
+          price: 25,
+          quantity: 5,
+          delta: -0.3,
+          tax: 2,
+          total: 19.987,
+        },
+        {
+          id: 2,
+          name: "Extra long product",
+          code: "xyz",
+          price: 10,
+          quantity: 3,
+          delta: 0.8,
+          tax: 1,
+          total: 30,
+        },
+        {
+          id: 3,
+          name: "Gadget",
+          code: "Abc",
+          price: 4.5,
+          quantity: 20,
+          delta: 0.5,
+          tax: 0.5,
+          total: 90,
+        },
+        {
+          id: 4,
+          name: null,
+          code: null,
+          price: "n/a",
+          quantity: 1,
+          delta: "x",
+          total: null,
+        },
+      ],
+    };
+    const lineIds = (expression: string, options?: FilterOptions) =>
+      query(lines)
+        .array("lines")
+        .filter(expression, options)
+        .all()
+        .map((line) => line.id);
+
+    it("should compare arithmetic on fields", () => {
+      expect(lineIds("price * quantity > 100")).toEqual([1]);
+      expect(lineIds("price * quantity >= 90")).toEqual([1, 3]);
+      expect(lineIds("price + tax == 11")).toEqual([2]);
+      expect(lineIds("price - tax * 2 < 5")).toEqual([3]);
+      expect(lineIds("quantity % 2 == 1")).toEqual([1, 2, 4]);
+      expect(lineIds("total / quantity < 5")).toEqual([1, 3]);
+    });
+
+    it("should respect parentheses in arithmetic", () => {
+      expect(lineIds("(price + tax) * quantity > 100")).toEqual([1]);
+      expect(lineIds("(price + tax) * quantity == 100 or id == 1")).toEqual([
+        1, 3,
+      ]);
+      expect(lineIds("((price + tax) * quantity > 100)")).toEqual([1]);
+    });
+
+    it("should call functions", () => {
+      expect(lineIds("len(name) < 10")).toEqual([1, 3]);
+      expect(lineIds("lower(code) == 'abc'")).toEqual([1, 3]);
+      expect(lineIds("upper(code) in ('XYZ')")).toEqual([2]);
+      expect(lineIds("abs(delta) <= 0.5")).toEqual([1, 3]);
+      expect(lineIds("round(total, 2) == 19.99")).toEqual([1]);
+      expect(lineIds("round(abs(delta)) == 1")).toEqual([2, 3]);
+      expect(lineIds("len(trim(name)) between 6 and 10")).toEqual([1, 3]);
+    });
+
+    it("should skip items with values of the wrong type", () => {
+      expect(lineIds("price * quantity > 0")).toEqual([1, 2, 3]);
+      expect(lineIds("len(code) == 3")).toEqual([1, 2, 3]);
+    });
+
+    it("should support every operator and option on computed values", () => {
+      expect(lineIds("lower(name) contains 'get'")).toEqual([1, 3]);
+      expect(lineIds("lower(code) matches /^a/")).toEqual([1, 3]);
+      expect(lineIds("total * 1 == 19.99", { decimals: 2 })).toEqual([1]);
+      expect(
+        lineIds("price * quantity > :min", { params: { min: 95 } }),
+      ).toEqual([1]);
+      expect(lineIds("price * quantity > @total")).toEqual([1]);
+      expect(lineIds("not (len(name) < 10)")).toEqual([2, 4]);
+    });
+
+    it("should expose computed values in the syntax tree", () => {
+      expect(compileFilter("round(price * quantity, 2) > 100").ast).toEqual({
+        type: "comparison",
+        operator: ">",
+        field: {
+          type: "call",
+          name: "round",
+          args: [
+            {
+              type: "arithmetic",
+              operator: "*",
+              left: { type: "field", path: "price" },
+              right: { type: "field", path: "quantity" },
+            },
+            { type: "literal", value: 2 },
+          ],
+        },
+        value: { type: "literal", value: 100 },
+      });
+    });
+
+    it("should reject malformed computed values", () => {
+      expect(() => lineIds("count(name) > 1")).toThrow(
+        /Unknown function "count"/,
+      );
+      expect(() => lineIds("round(total, 2, 3) > 1")).toThrow(
+        /"round" takes 1 to 2 argument\(s\) but got 3/,
+      );
+      expect(() => lineIds("len(name > 1")).toThrow(FilterSyntaxError);
+      expect(() => lineIds("price * > 1")).toThrow(/Expected a field name/);
+      expect(() => lineIds("5 == price")).toThrow(/Expected a field name/);
+      expect(() => lineIds("tags[*] * 2 > 1")).toThrow(
+        /Wildcard paths cannot be used in arithmetic/,
+      );
+    });
+
+    it("should not call inherited object properties as functions", () => {
+      for (const name of ["constructor", "toString", "__proto__"]) {
+        expect(() => lineIds(`${name}(name) == 'x'`)).toThrow(
+          FilterSyntaxError,
+        );
+        expect(() => lineIds(`${name}(name) == 'x'`)).toThrow(
+          `Unknown function "${name}"`,
+        );
+      }
+    });
+  });
+
+  describe("array membership", () => {
+    const orders = {
+      orders: [
+        {
+          id: 1,
+          tags: ["beta", "vip"],
+          lines: [
+            { qty: 2, sku: "X-1" },
+            { qty: 0, sku: "B-2" },
+          ],
+        },
+        { id: 2, tags: "beta", lines: [{ qty: 1, sku: "X-2" }] },
+        { id: 3, tags: ["vip", "new", "beta"], lines: [] },
+        { id: 4 },
+      ],
+    };
+    const orderIds = (expression: string, options?: FilterOptions) =>
+      query(orders)
+        .array("orders")
+        .filter(expression, options)
+        .all()
+        .map((order) => order.id);
+
+    it("should match arrays containing a value with has", () => {
+      expect(orderIds("tags has 'beta'")).toEqual([1, 3]);
+      expect(orderIds("tags has ('vip', 'new')")).toEqual([3]);
+      expect(orderIds("tags has ['vip']")).toEqual([1, 3]);
+      expect(orderIds("tags has :tag", { params: { tag: "new" } })).toEqual([
+        3,
+      ]);
+      expect(orderIds("not (tags has 'vip')")).toEqual([2, 4]);
+    });
+
+    it("should compare array sizes", () => {
+      expect(orderIds("size(tags) == 2")).toEqual([1]);
+      expect(orderIds("size(tags) > 2")).toEqual([3]);
+      expect(orderIds("size(lines) <= 1")).toEqual([2, 3]);
+      expect(orderIds("size(tags) != 2")).toEqual([2, 3, 4]);
+    });
+
+    it("should match arrays with any element satisfying a condition", () => {
+      expect(orderIds("any lines: (qty > 0 and sku startsWith 'X')")).toEqual([
+        1, 2,
+      ]);
+      expect(orderIds("any lines: (qty == 0)")).toEqual([1]);
+      expect(orderIds("any lines: (qty > 5) or id == 4")).toEqual([4]);
+    });
+
+    it("should match arrays with every element satisfying a condition", () => {
+      expect(orderIds("all lines: (sku startsWith 'X')")).toEqual([2, 3]);
+      expect(orderIds("all lines: (qty > 0) and size(lines) > 0")).toEqual([2]);
+      expect(orderIds("not (all lines: (qty > 0))")).toEqual([1, 4]);
+    });
+
+    it("should parse quantifiers into the filter tree", () => {
+      expect(compileFilter("any lines: (qty > 0)").ast).toEqual({
+        type: "quantifier",
+        quantifier: "any",
+        field: { type: "field", path: "lines" },
+        condition: {
+          type: "comparison",
+          operator: ">",
+          field: { type: "field", path: "qty" },
+          value: { type: "literal", value: 0 },
+        },
+      });
+    });
+
+    it("should reject malformed quantifiers", () => {
+      expect(() => orderIds("any lines: qty > 0")).toThrow(
+        /Expected "\(" after "any lines:"/,
+      );
+      expect(() => orderIds("all lines[*]: (qty > 0)")).toThrow(
+        /Expected an array field/,
+      );
+      expect(() => orderIds("any lines: (qty > 0")).toThrow(FilterSyntaxError);
+    });
+  });
+
+  describe("formatFilter", () => {
+    const roundTrips = [
+      "status == 'Active' and age >= 18",
+      "a == 1 or b == 2 and c == 3",
+      "(a == 1 or b == 2) and c == 3",
+      "a == 1 and (b == 2 and c == 3)",
+      "(a == 1 or b == 2) or c == 3",
+      "not (a == 1 or b == 2)",
+      "not not (a == 1)",
+      "name == 'O''Brien' and note == 'a\\\\b\\nc'",
+      "status in ('a', 'b') and id not in [1, 2]",
+      "code matches /^SKU-\\d+\\/x$/i",
+      "price > @cost and total <= @limits.max",
+      "name == :name and age > $1",
+      "price between 10 and 20 or price not between :min and $2",
+      "email exists and phone not exists",
+      "value is null and tags is not empty and id is number",
+      "items[0].price > 100 and tags[*] == 'sale'",
+      "headers['x-request-id'] == 'abc' and ['a b'].c == 1",
+      "(price + tax) * quantity > 100",
+      "price - (tax - discount) == 1",
+      "price * quantity / 2 % 3 > 1",
+      "round(price * quantity, 2) >= 19.99 and len(trim(name)) < 10",
+      "tags has 'beta' and tags has ('a', 'b') and size(tags) > 2",
+      "any lines: (qty > 0 and sku startsWith 'X') or all lines: (qty == 0)",
+      "value not undefined and flag == true and other != null",
+      "amount == -1.5 or amount == 1e+21",
+      "['not'] not 1 and ['NOT'].x == 2",
+      "['and'] == 1 or ['or'] exists and ['in'] in (1, 2)",
+      "['any'] has 'x' and ['all'] is null and ['is'] between 1 and 2",
+      "['exists'] == @['between'] and ['has'] * 2 > ['matches']",
+      "['true'] == true and ['null'] != null and ['contains'] contains 'c'",
+      "['where'] == 1 and ['order'] == 2 and ['limit'] == 3 and ['select'] == 4",
+      "any not: (in == 1)",
+    ];
+
+    it.each(roundTrips)("should round-trip %s", (expression) => {
+      const formatted = formatFilter(expression);
+      expect(compileFilter(formatted).ast).toEqual(
+        compileFilter(expression).ast,
+      );
+      expect(formatFilter(formatted)).toBe(formatted);
+    });
+
+    it("should format to a canonical string", () => {
+      expect(formatFilter(`(status == "Active") AND ((age > 18))`)).toBe(
+        "status == 'Active' and age > 18",
+      );
+      expect(formatFilter("items.0.price >= 1 or tags has vip")).toBe(
+        "items[0].price >= 1 or tags has 'vip'",
+      );
+      expect(formatFilter("a == 1 or (b == 2 and c == 3)")).toBe(
+        "a == 1 or b == 2 and c == 3",
+      );
+      expect(formatFilter("(a == 1 or b == 2) and c == 3")).toBe(
+        "(a == 1 or b == 2) and c == 3",
+      );
+      expect(formatFilter("((price + tax)) * (quantity) > 100")).toBe(
+        "(price + tax) * quantity > 100",
+      );
+      expect(formatFilter("price + (tax * 2) > 1")).toBe("price + tax * 2 > 1");
+      expect(formatFilter("name == John Smith")).toBe("name == 'John Smith'");
+      expect(formatFilter("LEN(name) < 3")).toBe("len(name) < 3");
+      expect(formatFilter("['not'] not 1")).toBe("['not'] not 1");
+      expect(formatFilter("a.not == 1 and ['Or'].and == 2")).toBe(
+        "a.not == 1 and ['Or'].and == 2",
+      );
+    });
+
+    it("should quote reserved words that run() treats as clauses", () => {
+      const rows = { rows: [{ limit: 1 }, { limit: 5 }] };
+      const where = formatFilter("['limit'] > 2");
+      expect(where).toBe("['limit'] > 2");
+      expect(
+        query(rows).array("rows").run(`where ${where} limit 1`).all(),
+      ).toEqual([{ limit: 5 }]);
+    });
+
+    it("should format compiled filters and syntax trees", () => {
+      const compiled = compileFilter("price > :min", { params: { min: 1 } });
+      expect(formatFilter(compiled)).toBe("price > :min");
+      expect(
+        formatFilter({
+          type: "check",
+          check: "exists",
+          field: { type: "field", path: "headers.x-id" },
+          negated: true,
+        }),
+      ).toBe("headers['x-id'] not exists");
+    });
+
+    it("should reject invalid expression strings", () => {
+      expect(() => formatFilter("price >")).toThrow(FilterSyntaxError);
+    });
+  });
+});
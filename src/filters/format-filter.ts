@@ -0,0 +1,243 @@
+/**
+ * @file filters/format-filter.ts
+ * @description Formats filter syntax trees back into canonical expression strings.
+ */
+
+import {
+  CompiledFilter,
+  FilterComparisonNode,
+  FilterExpressionNode,
+  FilterLiteralValue,
+  FilterNode,
+} from "../types";
+import { isCompiledFilter } from "./compile-filter";
+import { COMPARISON_OPERATORS, WILDCARD_SEGMENT } from "./filter-expression";
+import { parseFilter } from "./filter-parser";
+
+/**
+ * Formats a filter expression as a canonical string.
+ *
+ * The output uses lowercase keywords, single-quoted strings, bracket notation for
+ * array indices, wildcards and keys named like keywords (`['not']`), and only the parentheses needed to keep the same
+ * syntax tree, so `compileFilter(formatFilter(x)).ast` equals `compileFilter(x).ast`.
+ * Equivalent spellings of a filter format to the same string, which makes
+ * filters easy to diff, snapshot and dedupe.
+ *
+ * @example Normalize an expression string
+ * ```ts
+ * formatFilter(`(status == "Active") AND ((age > 18))`);
+ * // => "status == 'Active' and age > 18"
+ * ```
+ *
+ * @example Format a compiled filter or a transformed syntax tree
+ * ```ts
+ * const compiled = compileFilter("items.0.price * quantity >= 100 or tags has vip");
+ * formatFilter(compiled);
+ * // => "items[0].price * quantity >= 100 or tags has 'vip'"
+ * ```
+ *
+ * @param filter - Filter expression string, compiled filter or syntax tree
+ * @returns The canonical expression string
+ * @throws FilterSyntaxError if `filter` is an invalid expression string
+ */
+export function formatFilter(
+  filter: string | CompiledFilter | FilterNode,
+): string {
+  const ast =
+    typeof filter === "string"
+      ? parseFilter(filter)
+      : isCompiledFilter(filter)
+        ? filter.ast
+        : filter;
+  return formatNode(ast);
+}
+
+function formatNode(node: FilterNode): string {
+  switch (node.type) {
+    case "comparison":
+      return `${formatExpression(node.field)} ${formatOperator(node.operator)} ${formatValue(node.value)}`;
+    case "check":
+      if (node.check === "exists") {
+        return `${formatPath(node.field.path)} ${node.negated ? "not exists" : "exists"}`;
+      }
+      return `${formatPath(node.field.path)} is ${node.negated ? "not " : ""}${node.check}`;
+    case "quantifier":
+      // The ":" marks the path, so keywords can stay bare there
+      return `${node.quantifier} ${formatPath(node.field.path, false)}: (${formatNode(node.condition)})`;
+    case "logical":
+      return node.operands
+        .map((operand) =>
+          // "or" inside "and", and nested groups of the same operator, keep their parentheses
+          operand.type === "logical" &&
+          (operand.operator === node.operator || node.operator === "and")
+            ? `(${formatNode(operand)})`
+            : formatNode(operand),
+        )
+        .join(` ${node.operator} `);
+    case "not":
+      return node.operand.type === "not"
+        ? `not ${formatNode(node.operand)}`
+        : `not (${formatNode(node.operand)})`;
+  }
+}
+
+/**
+ * Restores the spelling of operators that the parser lowercases (`startswith` → `startsWith`).
+ */
+function formatOperator(operator: string): string {
+  return (
+    COMPARISON_OPERATORS.find(
+      (candidate) => candidate.toLowerCase() === operator,
+    ) ?? operator
+  );
+}
+
+/**
+ * Binding strength of arithmetic operators.
+ */
+const PRECEDENCE: Record<string, number> = {
+  "+": 1,
+  "-": 1,
+  "*": 2,
+  "/": 2,
+  "%": 2,
+};
+
+/**
+ * Formats a field or computed value. Arithmetic is left-associative, so a right
+ * operand of the same precedence keeps its parentheses (`a - (b - c)`).
+ */
+function formatExpression(node: FilterExpressionNode): string {
+  switch (node.type) {
+    case "field":
+      return formatPath(node.path);
+    case "literal":
+      return formatLiteral(node.value);
+    case "parameter":
+      return formatParameter(node.name);
+    case "call":
+      return `${node.name}(${node.args.map(formatExpression).join(", ")})`;
+    case "arithmetic": {
+      const precedence = PRECEDENCE[node.operator];
+      const operand = (child: FilterExpressionNode, minPrecedence: number) =>
+        child.type === "arithmetic" &&
+        PRECEDENCE[child.operator] < minPrecedence
+          ? `(${formatExpression(child)})`
+          : formatExpression(child);
+      return `${operand(node.left, precedence)} ${node.operator} ${operand(node.right, precedence + 1)}`;
+    }
+  }
+}
+
+function formatValue(value: FilterComparisonNode["value"]): string {
+  switch (value.type) {
+    case "field":
+      return `@${formatPath(value.path)}`;
+    case "parameter":
+      return formatParameter(value.name);
+    case "range":
+      return `${formatValue(value.min)} and ${formatValue(value.max)}`;
+    case "literal":
+      return formatLiteral(value.value);
+  }
+}
+
+function formatLiteral(value: FilterLiteralValue): string {
+  if (value instanceof RegExp) {
+    return `/${value.source}/${value.flags}`;
+  }
+  if (Array.isArray(value)) {
+    return `(${value.map(formatLiteral).join(", ")})`;
+  }
+  if (typeof value === "string") {
+    return quote(value);
+  }
+  return String(value);
+}
+
+function formatParameter(name: string): string {
+  return /^\d+$/.test(name) ? `$${name}` : `:${name}`;
+}
+
+/**
+ * Words that can't start a path unquoted: filter keywords, literal words and
+ * the clause keywords of `run()` query strings. Compared case-insensitively.
+ */
+const RESERVED_WORDS = new Set([
+  ...COMPARISON_OPERATORS.filter((operator) => /^\w+$/.test(operator)).map(
+    (operator) => operator.toLowerCase(),
+  ),
+  "and",
+  "or",
+  "any",
+  "all",
+  "is",
+  "exists",
+  "between",
+  "in",
+  "has",
+  "matches",
+  "true",
+  "false",
+  "null",
+  "undefined",
+  "where",
+  "order",
+  "limit",
+  "select",
+]);
+
+/**
+ * Formats a dot path, using `[0]` for indices, `[*]` for wildcards and
+ * `['key']` for keys that aren't identifiers or, as the first segment, are
+ * reserved words.
+ *
+ * @example formatPath("headers.x-request-id") // "headers['x-request-id']"
+ * @example formatPath("not") // "['not']"
+ */
+function formatPath(path: string, quoteReserved: boolean = true): string {
+  return path
+    .split(".")
+    .map((segment, index) => {
+      if (
+        segment === WILDCARD_SEGMENT ||
+        (index > 0 && /^\d+$/.test(segment))
+      ) {
+        return `[${segment}]`;
+      }
+      if (
+        /^[a-zA-Z_]\w*$/.test(segment) &&
+        !(
+          index === 0 &&
+          quoteReserved &&
+          RESERVED_WORDS.has(segment.toLowerCase())
+        )
+      ) {
+        return index === 0 ? segment : `.${segment}`;
+      }
+      return `[${quote(segment)}]`;
+    })
+    .join("");
+}
+
+/**
+ * Quotes a string with single quotes, escaping as `readStringLiteral` decodes.
+ */
+function quote(value: string): string {
+  const escaped = value.replace(/[\\'\n\r\t]|[\u0000-\u001f]/g, (char) => {
+    switch (char) {
+      case "\n":
+        return "\\n";
+      case "\r":
+        return "\\r";
+      case "\t":
+        return "\\t";
+      case "\\":
+      case "'":
+        return `\\${char}`;
+      default:
+        return `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`;
+    }
+  });
+  return `'${escaped}'`;
+}
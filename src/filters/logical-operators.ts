@@ -1,132 +1,204 @@
 /**
  * @file filters/logical-operators.ts
- * @description Utilities for parsing composite filter expressions with logical operators.
+ * @description Utilities for converting composite filter expressions with logical operators to sift clauses.
  */
 
+import { FilterComparisonNode, FilterNode, FilterOptions } from "../types";
 import {
-  parseFilterExpression,
+  checkToSiftClause,
+  computedComparisonToSiftClause,
   expressionToSiftClause,
+  fieldComparisonToSiftClause,
+  toSiftPath,
 } from "./filter-expression";
+import { compileFilterExpression } from "./filter-functions";
+import { parseFilter } from "./filter-parser";
 
 /**
- * Splits a filter expression by "and" or "or" logical operators (case-insensitive).
- * Respects quoted strings to avoid splitting within them.
+ * Converts a parsed filter expression tree into a sift query.
+ *
+ * - `and` → `$and`
+ * - `or` → `$or`
+ * - `not` → `$nor`
+ * - `any path: (...)` → `$elemMatch`
+ * - `all path: (...)` → no `$elemMatch` failing the condition
+ * - `size(path) == n` → `$size`
  *
  * @internal
  */
-export function splitLogicalOperators(expression: string): {
-  expressions: string[];
-  operators: ("and" | "or")[];
-} {
-  const expressions: string[] = [];
-  const operators: ("and" | "or")[] = [];
-
-  let current = "";
-  let inQuotes = false;
-  let quoteChar = "";
-  let i = 0;
-
-  while (i < expression.length) {
-    const char = expression[i];
-
-    // Track quoted strings
-    if (
-      (char === '"' || char === "'") &&
-      (i === 0 || expression[i - 1] !== "\\")
-    ) {
-      if (!inQuotes) {
-        inQuotes = true;
-        quoteChar = char;
-      } else if (char === quoteChar) {
-        inQuotes = false;
+export function filterNodeToSiftClause(
+  node: FilterNode,
+  options?: FilterOptions,
+): any {
+  switch (node.type) {
+    case "comparison":
+      if (
+        node.field.type === "call" &&
+        node.field.name === "size" &&
+        node.field.args[0].type === "field" &&
+        (node.operator === "==" || node.operator === "===") &&
+        node.value.type === "literal" &&
+        typeof node.value.value === "number"
+      ) {
+        return {
+          [toSiftPath(node.field.args[0].path)]: { $size: node.value.value },
+        };
       }
-      current += char;
-      i++;
-      continue;
+      if (node.field.type !== "field") {
+        const evaluate = compileFilterExpression(node.field, (name) =>
+          bindParameter(name, undefined, options),
+        );
+        return node.value.type === "field"
+          ? fieldComparisonToSiftClause(
+              evaluate,
+              node.operator,
+              node.value.path,
+              options,
+            )
+          : computedComparisonToSiftClause(
+              evaluate,
+              node.operator,
+              comparisonValue(node.value, node.operator, options),
+              options,
+            );
+      }
+      if (node.value.type === "field") {
+        return fieldComparisonToSiftClause(
+          node.field.path,
+          node.operator,
+          node.value.path,
+          options,
+        );
+      }
+      return expressionToSiftClause(
+        toSiftPath(node.field.path),
+        node.operator,
+        comparisonValue(node.value, node.operator, options),
+        options,
+      );
+    case "check":
+      return checkToSiftClause(node.field.path, node.check, node.negated);
+    case "quantifier": {
+      const field = toSiftPath(node.field.path);
+      const condition = filterNodeToSiftClause(node.condition, options);
+      // "all" holds for arrays without an element failing the condition
+      return node.quantifier === "any"
+        ? { [field]: { $elemMatch: condition } }
+        : {
+            [field]: {
+              $type: "array",
+              $not: { $elemMatch: { $nor: [condition] } },
+            },
+          };
     }
+    case "logical":
+      return {
+        [node.operator === "and" ? "$and" : "$or"]: node.operands.map(
+          (operand) => filterNodeToSiftClause(operand, options),
+        ),
+      };
+    case "not":
+      return { $nor: [filterNodeToSiftClause(node.operand, options)] };
+  }
+}
 
-    if (inQuotes) {
-      current += char;
-      i++;
-      continue;
-    }
+/**
+ * Resolves the value of a comparison, binding placeholders from `options.params`.
+ * A `between` range resolves to `[min, max]`.
+ */
+function comparisonValue(
+  value: Exclude<FilterComparisonNode["value"], { type: "field" }>,
+  operator: string,
+  options?: FilterOptions,
+): any {
+  switch (value.type) {
+    case "literal":
+      return value.value;
+    case "parameter":
+      return bindParameter(value.name, operator, options);
+    case "range":
+      return [
+        comparisonValue(value.min, operator, options),
+        comparisonValue(value.max, operator, options),
+      ];
+  }
+}
+
+/**
+ * Looks up the value of a `:name` / `$1` placeholder in `options.params`,
+ * checking it fits the operator it is used with, if any. Values are bound as
+ * literals: only scalars (string, number, boolean, null, undefined, Date),
+ * arrays of scalars for `in` / `not in` / `has`, and RegExps for `matches` /
+ * `not matches` are accepted, so a parameter can never inject query operators.
+ */
+function bindParameter(
+  name: string,
+  operator: string | undefined,
+  options?: FilterOptions,
+): any {
+  const placeholder = /^\d+$/.test(name) ? `$${name}` : `:${name}`;
+  const params = options?.params ?? {};
+  if (!Object.prototype.hasOwnProperty.call(params, name)) {
+    throw new Error(`Missing value for filter parameter "${placeholder}".`);
+  }
 
-    // Check for "and" or "or" operators
-    const remaining = expression.substring(i).toLowerCase();
-    if (remaining.startsWith(" and ")) {
-      expressions.push(current.trim());
-      operators.push("and");
-      current = "";
-      i += 5;
-      continue;
+  const value = params[name];
+  if (operator === "in" || operator === "not in") {
+    if (!Array.isArray(value) || !value.every(isScalarParameter)) {
+      throw new Error(
+        `Filter parameter "${placeholder}" must be an array of strings, numbers, booleans, null or Dates for "${operator}".`,
+      );
     }
-    if (remaining.startsWith(" or ")) {
-      expressions.push(current.trim());
-      operators.push("or");
-      current = "";
-      i += 4;
-      continue;
+    return value;
+  }
+  if (operator === "matches" || operator === "not matches") {
+    if (!(value instanceof RegExp)) {
+      throw new Error(
+        `Filter parameter "${placeholder}" must be a RegExp for "${operator}".`,
+      );
     }
-
-    current += char;
-    i++;
+    return value;
   }
-
-  if (current.trim()) {
-    expressions.push(current.trim());
+  if (
+    operator === "has" &&
+    Array.isArray(value) &&
+    value.every(isScalarParameter)
+  ) {
+    return value;
   }
+  if (!isScalarParameter(value)) {
+    throw new Error(
+      `Filter parameter "${placeholder}" must be a string, number, boolean, null or Date${operator ? ` for "${operator}"` : ""}.`,
+    );
+  }
+  return value;
+}
 
-  return { expressions, operators };
+function isScalarParameter(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    value instanceof Date
+  );
 }
 
 /**
  * Parses a composite filter expression and converts it to a sift query.
- * Handles logical operators: "and", "or" (case-insensitive).
+ * Handles logical operators: "and", "or" (case-insensitive), "not (...)"
+ * and parenthesized grouping. `and` binds tighter than `or`.
  *
  * @example "city == 'New York' and age > 30"
  * @example "status == 'Active' or status == 'Pending'"
+ * @example "(status == 'Active' or status == 'Pending') and not (age < 18)"
  *
  * @internal
  */
 export function parseCompositeFilterExpression(
   expression: string,
-  options?: { caseSensitive?: boolean; trim?: boolean; decimals?: number },
+  options?: FilterOptions,
 ): any {
-  const { expressions, operators } = splitLogicalOperators(expression);
-
-  if (expressions.length === 0) {
-    throw new Error(`No valid expressions found in filter: "${expression}"`);
-  }
-
-  if (expressions.length === 1) {
-    // Single expression, no logical operators
-    const { field, operator, value } = parseFilterExpression(expressions[0]);
-    return expressionToSiftClause(field, operator, value, options);
-  }
-
-  // Multiple expressions with logical operators
-  const clauses = expressions.map((expr) => {
-    const { field, operator, value } = parseFilterExpression(expr);
-    return expressionToSiftClause(field, operator, value, options);
-  });
-
-  // Build the query using $and and $or
-  // Handle mixed operators (though recommended to use parentheses in future)
-  // For now, we process left-to-right: all "and" have higher precedence
-  let result = clauses[0];
-
-  for (let i = 0; i < operators.length; i++) {
-    const op = operators[i];
-    const nextClause = clauses[i + 1];
-
-    if (op === "and") {
-      // Merge AND clauses
-      result = { $and: [result, nextClause] };
-    } else if (op === "or") {
-      // Create OR clause
-      result = { $or: [result, nextClause] };
-    }
-  }
-
-  return result;
+  return filterNodeToSiftClause(parseFilter(expression), options);
 }
@@ -0,0 +1,181 @@
+/**
+ * @file filters/query-string.ts
+ * @description Parser for query strings combining a filter with sort, limit and projection clauses.
+ */
+
+import { FilterNode } from "../types";
+import { parseFilterTokens } from "./filter-parser";
+import { FilterSyntaxError } from "./filter-syntax-error";
+import { FilterToken, tokenizeFilterExpression } from "./filter-tokenizer";
+
+/**
+ * The clauses of a parsed query string.
+ *
+ * @internal
+ */
+export type ParsedQueryString = {
+  where?: FilterNode;
+  orderBy: Array<{ path: string; direction: "asc" | "desc" }>;
+  limit?: number;
+  select?: string[];
+};
+
+type Clause = "where" | "order by" | "limit" | "select";
+
+const CLAUSES: Clause[] = ["where", "order by", "limit", "select"];
+
+/**
+ * Parses a query string such as
+ * `where status == 'Active' order by price desc, name limit 10 select name, price`.
+ *
+ * Every clause is optional and may appear once, in any order; they always apply
+ * as filter, then sort, then limit, then projection. Clause keywords are
+ * case-insensitive and only recognized outside parentheses and strings, so a
+ * field named like one must be written as a quoted key (`['limit'] > 5`).
+ *
+ * @throws FilterSyntaxError if the query string or its filter is invalid
+ * @internal
+ */
+export function parseQueryString(text: string): ParsedQueryString {
+  const tokens = tokenizeFilterExpression(text);
+  const fail = (
+    reason: string,
+    token: FilterToken | undefined,
+    expected: string[] = [],
+  ): never => {
+    throw new FilterSyntaxError({
+      expression: text,
+      position: token?.start ?? text.length,
+      length: token ? token.end - token.start : 1,
+      reason,
+      expected,
+    });
+  };
+
+  // Split the tokens into clauses at top-level clause keywords
+  const sections: Array<{
+    clause: Clause;
+    keyword: FilterToken;
+    tokens: FilterToken[];
+  }> = [];
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const clause = depth === 0 ? clauseAt(tokens, i) : undefined;
+    if (clause) {
+      if (sections.some((section) => section.clause === clause)) {
+        fail(`Duplicate "${clause}" clause.`, token);
+      }
+      sections.push({ clause, keyword: token, tokens: [] });
+      if (clause === "order by") i++;
+      continue;
+    }
+    if (sections.length === 0) {
+      fail(`Expected a clause but found "${token.text}".`, token, CLAUSES);
+    }
+    if (token.kind === "lparen" || token.kind === "lbracket") depth++;
+    if (token.kind === "rparen" || token.kind === "rbracket") depth--;
+    sections[sections.length - 1].tokens.push(token);
+  }
+  if (sections.length === 0) {
+    fail("Empty query string.", undefined, CLAUSES);
+  }
+
+  const parsed: ParsedQueryString = { orderBy: [] };
+  for (const { clause, keyword, tokens: clauseTokens } of sections) {
+    const next = clauseTokens[0];
+    if (!next) {
+      fail(`Expected a value after "${clause}".`, keyword);
+    }
+
+    switch (clause) {
+      case "where": {
+        const end = clauseTokens[clauseTokens.length - 1].end;
+        parsed.where = parseFilterTokens(text.slice(0, end), clauseTokens);
+        break;
+      }
+      case "order by":
+        parsed.orderBy = splitList(clauseTokens, fail).map(([path, order]) => {
+          const direction = order?.text.toLowerCase();
+          if (order && direction !== "asc" && direction !== "desc") {
+            fail(`Expected "asc" or "desc" but found "${order.text}".`, order, [
+              "asc",
+              "desc",
+              ",",
+            ]);
+          }
+          return {
+            path: path.text,
+            direction: direction === "desc" ? "desc" : "asc",
+          };
+        });
+        break;
+      case "limit":
+        if (
+          clauseTokens.length > 1 ||
+          next.kind !== "word" ||
+          !/^\d+$/.test(next.text)
+        ) {
+          fail(`"limit" takes a non-negative integer.`, next, ["number"]);
+        }
+        parsed.limit = Number(next.text);
+        break;
+      case "select":
+        parsed.select = splitList(clauseTokens, fail).map(([path, extra]) => {
+          if (extra) {
+            fail(`Expected "," but found "${extra.text}".`, extra, [","]);
+          }
+          return path.text;
+        });
+        break;
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Returns the clause starting at `tokens[i]`, if any.
+ */
+function clauseAt(tokens: FilterToken[], i: number): Clause | undefined {
+  const token = tokens[i];
+  if (token.kind !== "word") {
+    return undefined;
+  }
+  const word = token.text.toLowerCase();
+  if (word === "where" || word === "limit" || word === "select") {
+    return word;
+  }
+  const next = tokens[i + 1];
+  return word === "order" &&
+    next?.kind === "word" &&
+    next.text.toLowerCase() === "by"
+    ? "order by"
+    : undefined;
+}
+
+/**
+ * Splits the tokens of an `order by` / `select` clause at commas into items of
+ * one or two words (a path and an optional modifier).
+ */
+function splitList(
+  tokens: FilterToken[],
+  fail: (reason: string, token: FilterToken | undefined) => never,
+): Array<[FilterToken, FilterToken?]> {
+  const items: Array<[FilterToken, FilterToken?]> = [];
+  let item: FilterToken[] = [];
+  for (const token of [...tokens, undefined]) {
+    if (token && token.kind !== "comma") {
+      if (token.kind !== "word" || item.length === 2) {
+        fail(`Unexpected "${token.text}".`, token);
+      }
+      item.push(token);
+      continue;
+    }
+    if (item.length === 0) {
+      fail("Expected a field name.", token);
+    }
+    items.push([item[0], item[1]]);
+    item = [];
+  }
+  return items;
+}
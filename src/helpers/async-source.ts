@@ -0,0 +1,242 @@
+/**
+ * @file helpers/async-source.ts
+ * @description Utilities for reading query items from async iterables and text streams.
+ */
+
+import { AsyncQuerySource, AsyncSourceOptions } from "../types";
+
+/**
+ * Returns a function that opens a fresh iteration over the items of `source`.
+ *
+ * - Arrays, other re-iterable collections (`Set`, `Map`, ...) and factories
+ *   (`() => AsyncIterable`) can be iterated any number of times.
+ * - Streams, async iterables and iterators (generators) can only be read once;
+ *   opening them again throws instead of silently yielding nothing.
+ * - With `format: "ndjson"` or `"json-array"`, the source yields text chunks
+ *   (strings, Buffers or `Uint8Array`s) that are decoded as UTF-8 and parsed.
+ *   A Node byte stream (a `Readable` not in object mode) defaults to `"ndjson"`.
+ *
+ * @internal
+ */
+export function openAsyncSource<TItem>(
+  source: AsyncQuerySource<TItem>,
+  options: AsyncSourceOptions = {},
+): () => AsyncIterable<TItem> {
+  const format = options.format ?? (isByteStream(source) ? "ndjson" : "items");
+  if (format !== "items" && format !== "ndjson" && format !== "json-array") {
+    throw new Error(
+      `Invalid format "${format}". Expected "items", "ndjson" or "json-array".`,
+    );
+  }
+
+  const singleUse = typeof source !== "function" && isSingleUse(source);
+  let consumed = false;
+  const open = (): AsyncIterable<any> | Iterable<any> => {
+    if (typeof source === "function") {
+      return source();
+    }
+    if (singleUse) {
+      if (consumed) {
+        throw new Error(
+          "queryAsync() source was already read. Streams and generators can only be read once; pass a function returning a new source to run several queries.",
+        );
+      }
+      consumed = true;
+    }
+    return source;
+  };
+
+  switch (format) {
+    case "ndjson":
+      return () => parseNdjson(open());
+    case "json-array":
+      return () => parseJsonArray(open());
+    default:
+      return () => toAsyncIterable(open());
+  }
+}
+
+async function* toAsyncIterable<T>(
+  source: AsyncIterable<T> | Iterable<T>,
+): AsyncGenerator<T> {
+  yield* source;
+}
+
+/**
+ * True for sources a second iteration would find empty or half-read: async
+ * iterables (streams, async generators) and iterators that return themselves
+ * from `[Symbol.iterator]()` (generators).
+ */
+function isSingleUse(
+  source: AsyncIterable<unknown> | Iterable<unknown>,
+): boolean {
+  if (Symbol.asyncIterator in source) return true;
+  return (source as any)[Symbol.iterator]() === source;
+}
+
+/**
+ * True for a Node `Readable` that emits bytes or strings rather than objects.
+ */
+function isByteStream(source: unknown): boolean {
+  return (
+    typeof source === "object" &&
+    source !== null &&
+    typeof (source as any).pipe === "function" &&
+    (source as any).readableObjectMode === false
+  );
+}
+
+/**
+ * Decodes text chunks as UTF-8, keeping multi-byte characters split across chunks intact.
+ */
+async function* decodeChunks(
+  chunks: AsyncIterable<unknown> | Iterable<unknown>,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  for await (const chunk of chunks) {
+    if (typeof chunk === "string") {
+      yield chunk;
+    } else if (chunk instanceof Uint8Array) {
+      yield decoder.decode(chunk, { stream: true });
+    } else {
+      throw new Error(
+        `Expected text chunks (string, Buffer or Uint8Array) but received ${typeof chunk}.`,
+      );
+    }
+  }
+  const rest = decoder.decode();
+  if (rest) {
+    yield rest;
+  }
+}
+
+/**
+ * Parses newline-delimited JSON: one value per line, blank lines skipped.
+ *
+ * @example
+ * ```ts
+ * parseNdjson(['{"id":1}\n{"i', 'd":2}\n']); // yields { id: 1 }, { id: 2 }
+ * ```
+ *
+ * @throws Error naming the line number if a line is not valid JSON
+ * @internal
+ */
+export async function* parseNdjson(
+  chunks: AsyncIterable<unknown> | Iterable<unknown>,
+): AsyncGenerator<any> {
+  let pending = "";
+  let line = 0;
+  const parseLine = function* (text: string) {
+    line++;
+    if (!text.trim()) {
+      return;
+    }
+    try {
+      yield JSON.parse(text);
+    } catch (error) {
+      throw new Error(
+        `Invalid NDJSON at line ${line}: ${(error as Error).message}`,
+      );
+    }
+  };
+
+  for await (const text of decodeChunks(chunks)) {
+    pending += text;
+    let start = 0;
+    let newline = pending.indexOf("\n");
+    while (newline !== -1) {
+      yield* parseLine(pending.slice(start, newline));
+      start = newline + 1;
+      newline = pending.indexOf("\n", start);
+    }
+    pending = pending.slice(start);
+  }
+  yield* parseLine(pending);
+}
+
+/**
+ * Parses a top-level JSON array incrementally, yielding each element as soon
+ * as it is complete, so the whole document is never held in memory.
+ *
+ * @example
+ * ```ts
+ * parseJsonArray(['[{"id":1},', '{"id":2}]']); // yields { id: 1 }, { id: 2 }
+ * ```
+ *
+ * @throws Error if the text is not a JSON array or an element is invalid
+ * @internal
+ */
+export async function* parseJsonArray(
+  chunks: AsyncIterable<unknown> | Iterable<unknown>,
+): AsyncGenerator<any> {
+  let pending = "";
+  let index = 0;
+  let state: "start" | "element" | "end" = "start";
+  let elementStart = -1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let count = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid JSON array: ${reason}`);
+  };
+  const parseElement = (text: string) => {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      return fail(`element ${count}: ${(error as Error).message}`);
+    }
+  };
+
+  for await (const text of decodeChunks(chunks)) {
+    pending += text;
+    for (; index < pending.length; index++) {
+      const char = pending[index];
+      if (state === "end") {
+        if (!/\s/.test(char)) fail(`unexpected "${char}" after the array.`);
+        continue;
+      }
+      if (state === "start") {
+        if (/\s/.test(char)) continue;
+        if (char !== "[") fail(`expected "[" but found "${char}".`);
+        state = "element";
+        elementStart = index + 1;
+        continue;
+      }
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        depth++;
+      } else if ((char === "}" || char === "]") && depth > 0) {
+        depth--;
+      } else if (depth === 0 && (char === "," || char === "]")) {
+        const element = pending.slice(elementStart, index).trim();
+        if (element) {
+          yield parseElement(element);
+          count++;
+        } else if (char === "," || count > 0) {
+          fail(`missing element at position ${count}.`);
+        }
+        if (char === "]") state = "end";
+        elementStart = index + 1;
+      }
+    }
+    // Keep only the unfinished element, so memory stays bounded by one element
+    if (state !== "start") {
+      pending = state === "end" ? "" : pending.slice(elementStart);
+      index = pending.length;
+      elementStart = 0;
+    }
+  }
+  if (state !== "end") {
+    fail("unexpected end of input.");
+  }
+}
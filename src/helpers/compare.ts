@@ -0,0 +1,98 @@
+/**
+ * @file helpers/compare.ts
+ * @description Utilities for comparing two fields of the same item.
+ */
+
+import { NumericTolerance, WhereOptions } from "../types";
+import { compareNumbers, hasTolerance } from "./numeric";
+import { tryGetByPath } from "./path";
+
+/**
+ * Operators supported when comparing two fields.
+ *
+ * @internal
+ */
+export type FieldComparisonOperator = "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+/**
+ * Compares two values with the given operator.
+ *
+ * - `==` / `!=` use strict equality; strings can be compared case-insensitively and trimmed.
+ * - Two numbers are compared with the `decimals` / `epsilon` tolerance, if given.
+ * - Ordering operators require both values to be non-null and of the same type,
+ *   and return false otherwise.
+ *
+ * @internal
+ */
+export function compareValues(
+  left: any,
+  operator: FieldComparisonOperator,
+  right: any,
+  opts?: Partial<WhereOptions> & NumericTolerance,
+): boolean {
+  if (
+    typeof left === "number" &&
+    typeof right === "number" &&
+    hasTolerance(opts)
+  ) {
+    return compareNumbers(left, operator, right, opts);
+  }
+  if (typeof left === "string" && typeof right === "string") {
+    if (opts?.trim) {
+      left = left.trim();
+      right = right.trim();
+    }
+    if (opts?.caseInsensitive) {
+      left = left.toLowerCase();
+      right = right.toLowerCase();
+    }
+  }
+
+  if (operator === "==") return left === right;
+  if (operator === "!=") return left !== right;
+
+  if (left == null || right == null || typeof left !== typeof right) {
+    return false;
+  }
+  switch (operator) {
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+  }
+}
+
+/**
+ * Builds a sift clause that compares the values at two paths of the same item.
+ * Paths are resolved like {@link getByPath} (dots and bracket indices);
+ * missing paths resolve to `undefined`. The left-hand side can also be a
+ * function computing the value from the item.
+ *
+ * @example
+ * ```ts
+ * fieldComparisonClause('discountPrice', '<=', 'listPrice');
+ * ```
+ *
+ * @internal
+ */
+export function fieldComparisonClause(
+  path: string | ((item: unknown) => unknown),
+  operator: FieldComparisonOperator,
+  otherPath: string,
+  opts?: Partial<WhereOptions> & NumericTolerance,
+): any {
+  return {
+    $where: function (this: any) {
+      return compareValues(
+        typeof path === "function" ? path(this) : tryGetByPath(this, path),
+        operator,
+        tryGetByPath(this, otherPath),
+        opts,
+      );
+    },
+  };
+}
@@ -1,4 +1,7 @@
+import sift from "sift";
 import { query, getPathSegmentAfter } from "../index";
+import { compileClause } from "./predicate";
+import { compareSortValues } from "./sort";
 
 describe("Helpers", () => {
   describe("getPathSegmentAfter()", () => {
@@ -54,4 +57,114 @@ describe("Helpers", () => {
       expect(result[0].id).toBe(1);
     });
   });
+
+  describe("compiled predicates", () => {
+    const items: any[] = [
+      { a: 1, b: "x" },
+      { a: 2, b: "X" },
+      { a: [1, 3], b: ["x", "y"] },
+      { a: [], b: null },
+      { a: [{ x: 1 }, { x: 2, y: "z" }] },
+      { a: { x: [2, 3] }, b: new Date(5) },
+      { a: null },
+      {},
+      null,
+    ];
+    const clauses: any[] = [
+      { a: 1 },
+      { a: [1, 3] },
+      { "a.x": 2 },
+      { "a.0.x": 1 },
+      { b: /x/i },
+      { b: { $not: /x/ } },
+      { b: new Date(5) },
+      { a: { $ne: 1 } },
+      { a: { $ne: null } },
+      { a: { $gt: 1, $lt: 3 } },
+      { a: { $in: [2, null] } },
+      { a: { $nin: [1] } },
+      { "a.x": { $nin: [1] } },
+      { a: { $exists: true } },
+      { "a.y": { $exists: false } },
+      { a: { $size: 2 } },
+      { a: { $all: [1, 3] } },
+      { a: { $type: "array" } },
+      { a: { $not: { $type: "array" } } },
+      { a: { $elemMatch: { x: { $gte: 2 } } } },
+      { a: { $type: "array", $not: { $elemMatch: { $nor: [{ x: 1 }] } } } },
+      { a: { $where: (value: unknown) => typeof value === "number" } },
+      { $where: (item: any) => item != null && item.b === "x" },
+      { $or: [{ a: 2 }, { b: null }] },
+      { $nor: [{ a: { $exists: true } }] },
+      { $and: [{ a: { $gte: 1 } }, { b: { $in: ["x", "y"] } }] },
+    ];
+
+    it.each(clauses.map((clause) => [clause]))(
+      "should match the same items as sift for %o",
+      (clause) => {
+        const compiled = compileClause(clause);
+        const expected = sift(clause);
+        for (const item of items) {
+          expect([item, compiled(item)]).toEqual([item, expected(item)]);
+        }
+      },
+    );
+
+    it("should keep raw whereSift() clauses on sift", () => {
+      const data = { items: [{ n: 1 }, { n: 2 }, { n: 3 }] };
+      const result = query(data)
+        .array("items")
+        .whereSift({ n: { $mod: [2, 1] } })
+        .where("n")
+        .greaterThan(1)
+        .all();
+      expect(result).toEqual([{ n: 3 }]);
+    });
+
+    it("should recompile after more clauses are added", () => {
+      const data = { items: [{ n: 1 }, { n: 2 }, { n: 3 }] };
+      const items = query(data).array("items").where("n").greaterThan(1);
+      expect(items.all()).toHaveLength(2);
+      expect(items.where("n").lessThan(3).all()).toEqual([{ n: 2 }]);
+    });
+
+    it("should report invalid clauses like sift", () => {
+      expect(() => compileClause({ a: { $unknown: 1 } })).toThrow(
+        "Unsupported operation: $unknown",
+      );
+      expect(() => compileClause({ $or: [] })).toThrow(
+        "$and/$or/$nor must be a nonempty array",
+      );
+    });
+  });
+
+  describe("compareSortValues()", () => {
+    it("should order numbers, strings, booleans, dates, then other values", () => {
+      const object = { a: 1 };
+      const values = [
+        object,
+        new Date(5),
+        true,
+        "b",
+        10,
+        false,
+        new Date(1),
+        "B",
+        NaN,
+        2,
+      ];
+      expect([...values].sort(compareSortValues)).toEqual([
+        NaN,
+        2,
+        10,
+        "B",
+        "b",
+        false,
+        true,
+        new Date(1),
+        new Date(5),
+        object,
+      ]);
+    });
+  });
 });
@@ -0,0 +1,315 @@
+/**
+ * @file helpers/item-index.ts
+ * @description Hash and sorted indexes over the values at a path, used to narrow clause evaluation.
+ */
+
+/**
+ * Positions of the items in an array, keyed by their value at one path.
+ *
+ * @internal
+ */
+export type ItemIndex = {
+  /** Length of the array when the index was built; a different length triggers a rebuild. */
+  length: number;
+
+  /**
+   * False if some value can't be indexed exactly like sift matches it
+   * (arrays along the path, objects, dates); lookups then fall back to a scan.
+   */
+  usable: boolean;
+
+  /** Positions by exact value. */
+  byValue: Map<unknown, number[]>;
+
+  /** Positions by case-folded string, built on the first case-insensitive lookup. */
+  byFolded?: Map<string, number[]>;
+
+  /** `[value, position]` pairs sorted by value, per type, built on the first range lookup. */
+  sorted?: Record<"number" | "string", Array<[any, number]>>;
+};
+
+const indexes = new WeakMap<readonly unknown[], Map<string, ItemIndex>>();
+
+/**
+ * Returns the index of `items` by `path`, building it on first use. Indexes are
+ * cached per array, so every query over the same array shares them; an index
+ * is rebuilt when the array's length has changed since it was built, or when
+ * `rebuild` is set.
+ *
+ * @internal
+ */
+export function getItemIndex(
+  items: readonly unknown[],
+  path: string,
+  rebuild: boolean = false,
+): ItemIndex {
+  let byPath = indexes.get(items);
+  if (!byPath) {
+    byPath = new Map();
+    indexes.set(items, byPath);
+  }
+  let index = byPath.get(path);
+  if (!index || rebuild || index.length !== items.length) {
+    index = buildItemIndex(items, path);
+    byPath.set(path, index);
+  }
+  return index;
+}
+
+function buildItemIndex(items: readonly unknown[], path: string): ItemIndex {
+  const segments = path.split(".");
+  const byValue = new Map<unknown, number[]>();
+  let usable = true;
+
+  for (let i = 0; i < items.length && usable; i++) {
+    let value: any = items[i];
+    for (const segment of segments) {
+      if (value === null || value === undefined) break;
+      if (typeof value !== "object" || Array.isArray(value)) {
+        usable = false;
+        break;
+      }
+      value = value[segment];
+    }
+    if (
+      value !== null &&
+      value !== undefined &&
+      typeof value !== "string" &&
+      typeof value !== "number" &&
+      typeof value !== "boolean"
+    ) {
+      usable = false;
+    }
+    const positions = byValue.get(value);
+    if (positions) positions.push(i);
+    else byValue.set(value, [i]);
+  }
+
+  return { length: items.length, usable, byValue };
+}
+
+/**
+ * Returns the positions of the items that may match `clauses`, in ascending
+ * order, using the first indexed path the clauses can be looked up by. Every
+ * item matching the clauses is included; the clauses must still be tested on
+ * the candidates. Returns `undefined` if no clause can use an index.
+ *
+ * Indexable: `{ path: value }`, `$eq`, `$in`, exact-match regexes (as built by
+ * `where().equals()`, with or without `i`), and `$gt`/`$gte`/`$lt`/`$lte` with
+ * a number or string bound. Other operators on the same path are ignored here
+ * and left to the clause test.
+ *
+ * @internal
+ */
+export function indexCandidates(
+  items: readonly unknown[],
+  paths: readonly string[],
+  clauses: readonly any[],
+): number[] | undefined {
+  let best: number[] | undefined;
+  for (const clause of clauses) {
+    if (typeof clause !== "object" || clause === null) continue;
+    for (const path of paths) {
+      if (!Object.prototype.hasOwnProperty.call(clause, path)) continue;
+      const index = getItemIndex(items, path);
+      if (!index.usable) continue;
+      const positions = lookup(index, clause[path]);
+      if (positions && (!best || positions.length < best.length)) {
+        best = positions;
+      }
+    }
+  }
+  return best && [...best].sort((a, b) => a - b);
+}
+
+/**
+ * Positions that may match one path's condition, or `undefined` if it can't be looked up.
+ */
+function lookup(index: ItemIndex, condition: any): number[] | undefined {
+  if (isIndexableValue(condition)) {
+    return index.byValue.get(condition) ?? [];
+  }
+  if (condition instanceof RegExp) {
+    const literal = exactRegexLiteral(condition);
+    if (literal === undefined) return undefined;
+    if (condition.flags === "") {
+      return index.byValue.get(literal) ?? [];
+    }
+    index.byFolded ??= foldStrings(index.byValue);
+    return index.byFolded.get(foldCase(literal)) ?? [];
+  }
+  if (
+    typeof condition !== "object" ||
+    condition === null ||
+    Array.isArray(condition) ||
+    Object.keys(condition).some((key) => !key.startsWith("$"))
+  ) {
+    return undefined;
+  }
+
+  // Operators are ANDed, so any indexable one bounds the matches
+  if (isIndexableValue(condition.$eq)) {
+    return index.byValue.get(condition.$eq) ?? [];
+  }
+  if (Array.isArray(condition.$in) && condition.$in.every(isIndexableValue)) {
+    return [...new Set<unknown>(condition.$in)].flatMap(
+      (value) => index.byValue.get(value) ?? [],
+    );
+  }
+  return rangeLookup(index, condition);
+}
+
+function rangeLookup(index: ItemIndex, condition: any): number[] | undefined {
+  const bounds = (["$gt", "$gte", "$lt", "$lte"] as const).filter(
+    (operator) => operator in condition,
+  );
+  const type = typeof condition[bounds[0]];
+  if (
+    bounds.length === 0 ||
+    (type !== "number" && type !== "string") ||
+    bounds.some(
+      (operator) =>
+        typeof condition[operator] !== type ||
+        Number.isNaN(condition[operator]),
+    )
+  ) {
+    return undefined;
+  }
+
+  index.sorted ??= sortValues(index.byValue);
+  const sorted = index.sorted[type as "number" | "string"];
+  let start = 0;
+  let end = sorted.length;
+  for (const operator of bounds) {
+    const bound = condition[operator];
+    switch (operator) {
+      case "$gt":
+        start = Math.max(
+          start,
+          firstIndex(sorted, (value) => value > bound),
+        );
+        break;
+      case "$gte":
+        start = Math.max(
+          start,
+          firstIndex(sorted, (value) => value >= bound),
+        );
+        break;
+      case "$lt":
+        end = Math.min(
+          end,
+          firstIndex(sorted, (value) => value >= bound),
+        );
+        break;
+      case "$lte":
+        end = Math.min(
+          end,
+          firstIndex(sorted, (value) => value > bound),
+        );
+        break;
+    }
+  }
+  return sorted.slice(start, Math.max(start, end)).map(([, i]) => i);
+}
+
+/**
+ * Binary search for the first entry whose value satisfies a monotonic predicate.
+ */
+function firstIndex(
+  sorted: Array<[any, number]>,
+  test: (value: any) => boolean,
+): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (test(sorted[middle][0])) high = middle;
+    else low = middle + 1;
+  }
+  return low;
+}
+
+function sortValues(
+  byValue: Map<unknown, number[]>,
+): NonNullable<ItemIndex["sorted"]> {
+  const sorted: NonNullable<ItemIndex["sorted"]> = { number: [], string: [] };
+  for (const [value, positions] of byValue) {
+    if (
+      (typeof value === "number" && !Number.isNaN(value)) ||
+      typeof value === "string"
+    ) {
+      const entries = sorted[typeof value as "number" | "string"];
+      for (const i of positions) entries.push([value, i]);
+    }
+  }
+  const compare = (a: [any, number], b: [any, number]) =>
+    a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : a[1] - b[1];
+  sorted.number.sort(compare);
+  sorted.string.sort(compare);
+  return sorted;
+}
+
+function foldStrings(byValue: Map<unknown, number[]>): Map<string, number[]> {
+  const folded = new Map<string, number[]>();
+  for (const [value, positions] of byValue) {
+    if (typeof value !== "string") continue;
+    const key = foldCase(value);
+    folded.set(key, [...(folded.get(key) ?? []), ...positions]);
+  }
+  return folded;
+}
+
+/**
+ * Case-folds a string the way a non-unicode `/i` regex compares characters,
+ * so two strings fold equal exactly when such a regex treats them as equal.
+ */
+function foldCase(text: string): string {
+  let folded = "";
+  for (const char of text.split("")) {
+    const upper = char.toUpperCase();
+    folded +=
+      upper.length === 1 &&
+      !(char.charCodeAt(0) >= 128 && upper.charCodeAt(0) < 128)
+        ? upper
+        : char;
+  }
+  return folded;
+}
+
+/**
+ * Returns the literal text an `^...$` regex matches, if it has no other
+ * special characters and only the `i` flag (or none).
+ */
+function exactRegexLiteral(regex: RegExp): string | undefined {
+  const { source, flags } = regex;
+  if (
+    (flags !== "" && flags !== "i") ||
+    !source.startsWith("^") ||
+    !source.endsWith("$") ||
+    source.endsWith("\\$")
+  ) {
+    return undefined;
+  }
+  let literal = "";
+  for (let i = 1; i < source.length - 1; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      const next = source[++i];
+      if (!/[.*+?^${}()|[\]\\/]/.test(next)) return undefined;
+      literal += next;
+    } else if (/[.*+?^${}()|[\]]/.test(char)) {
+      return undefined;
+    } else {
+      literal += char;
+    }
+  }
+  return literal;
+}
+
+function isIndexableValue(value: unknown): boolean {
+  return (
+    typeof value === "string" ||
+    typeof value === "boolean" ||
+    (typeof value === "number" && !Number.isNaN(value))
+  );
+}
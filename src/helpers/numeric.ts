@@ -0,0 +1,110 @@
+/**
+ * @file helpers/numeric.ts
+ * @description Utilities for numeric comparisons with decimal or epsilon tolerance.
+ */
+
+import { NumericTolerance } from "../types";
+import { FieldComparisonOperator } from "./compare";
+
+/**
+ * Returns true if any tolerance option is set.
+ *
+ * @internal
+ */
+export function hasTolerance(tolerance?: NumericTolerance): boolean {
+  return (
+    tolerance?.decimals !== undefined ||
+    tolerance?.epsilon !== undefined ||
+    tolerance?.relativeEpsilon !== undefined
+  );
+}
+
+/**
+ * Rounds a number to the given number of decimal places.
+ *
+ * @internal
+ */
+export function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Compares two numbers with the given tolerance.
+ *
+ * - `decimals` rounds both sides before comparing.
+ * - `epsilon` treats numbers within that absolute difference as equal.
+ * - `relativeEpsilon` treats numbers within that fraction of the larger magnitude as equal.
+ *
+ * Ordering operators only hold when the numbers are not equal within the tolerance,
+ * so `19.999 > 20` is false and `19.999 >= 20` is true with `{ decimals: 2 }`.
+ * A non-number `left` never matches, except for `!=`.
+ *
+ * @example compareNumbers(19.991, "==", 19.99, { decimals: 2 }) // true
+ * @example compareNumbers(0.1 + 0.2, "<=", 0.3, { epsilon: 1e-9 }) // true
+ *
+ * @internal
+ */
+export function compareNumbers(
+  left: unknown,
+  operator: FieldComparisonOperator,
+  right: number,
+  tolerance: NumericTolerance = {},
+): boolean {
+  if (typeof left !== "number") {
+    return operator === "!=";
+  }
+
+  let a = left;
+  let b = right;
+  if (tolerance.decimals !== undefined) {
+    a = round(a, tolerance.decimals);
+    b = round(b, tolerance.decimals);
+  }
+  const difference = Math.abs(a - b);
+  const equal =
+    difference === 0 ||
+    (tolerance.epsilon !== undefined && difference <= tolerance.epsilon) ||
+    (tolerance.relativeEpsilon !== undefined &&
+      difference <=
+        tolerance.relativeEpsilon * Math.max(Math.abs(a), Math.abs(b)));
+
+  switch (operator) {
+    case "==":
+      return equal;
+    case "!=":
+      return !equal;
+    case ">":
+      return !equal && a > b;
+    case ">=":
+      return equal || a > b;
+    case "<":
+      return !equal && a < b;
+    case "<=":
+      return equal || a < b;
+  }
+}
+
+/**
+ * Builds a sift clause comparing the number at `path` to `value` with the given tolerance.
+ *
+ * @example
+ * ```ts
+ * numericClause('price.amount', '>=', 20, { decimals: 2 });
+ * ```
+ *
+ * @internal
+ */
+export function numericClause(
+  path: string,
+  operator: FieldComparisonOperator,
+  value: number,
+  tolerance: NumericTolerance,
+): any {
+  return {
+    [path]: {
+      $where: (fieldValue: unknown) =>
+        compareNumbers(fieldValue, operator, value, tolerance),
+    },
+  };
+}
@@ -111,3 +111,34 @@ export function getPathSegmentAfter(path: string, prefix: string): string {
 
   throw new Error(`Prefix path "${prefix}" not found in "${path}".`);
 }
+
+/**
+ * Converts bracket indices to dot segments, the form sift clauses expect,
+ * so a path resolves to the same value as with {@link getByPath}.
+ *
+ * @example
+ * ```ts
+ * toDotPath('lines[0].price.amount'); // 'lines.0.price.amount'
+ * ```
+ */
+export function toDotPath(path: string): string {
+  return path.replace(/\[(\d+)\]/g, ".$1");
+}
+
+/**
+ * Like {@link getByPath}, but returns `undefined` instead of throwing
+ * when the path doesn't exist.
+ *
+ * @example
+ * ```ts
+ * tryGetByPath({ a: { b: 1 } }, 'a.b'); // 1
+ * tryGetByPath({ a: {} }, 'a.b.c'); // undefined
+ * ```
+ */
+export function tryGetByPath(obj: unknown, path: string): any {
+  try {
+    return getByPath(obj, path);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,525 @@
+/**
+ * @file helpers/predicate.ts
+ * @description Compiles sift query clauses into specialized predicates.
+ */
+
+import sift from "sift";
+
+/**
+ * A value reached while walking a path, with the key and object it was read from.
+ * Mirrors what sift passes to its operations.
+ */
+type Candidate = {
+  value: any;
+  key: any;
+  owner: any;
+  root?: boolean;
+  leaf?: boolean;
+};
+
+/**
+ * Tests the candidates of one path. Each operation folds over the whole
+ * sequence the way its sift counterpart accumulates state, so that the
+ * compiled predicate matches exactly what sift would.
+ */
+type Matcher = (candidates: Candidate[]) => boolean;
+
+type Tester = (value: any, key?: any, owner?: any) => boolean;
+
+/**
+ * Thrown while compiling a clause that uses something sift rejects (or that
+ * isn't supported here), so the clause is left to sift, which reports the error.
+ */
+class UnsupportedClause extends Error {}
+
+/**
+ * Compiles filter clauses into a single predicate that matches the same items
+ * as `sift({ $and: clauses })`, without sift's per-item operation tree:
+ * paths are split once, regexes and comparison values are prepared up front,
+ * and primitive equality is a direct `===`.
+ *
+ * Clauses in `raw` (e.g. from `whereSift()`), clauses that sift would reject,
+ * and items that are themselves arrays are still evaluated by sift.
+ *
+ * @example
+ * ```ts
+ * const test = compilePredicate([{ type: 'Premium' }, { price: { $gte: 100 } }]);
+ * items.filter(test);
+ * ```
+ *
+ * @internal
+ */
+export function compilePredicate<TItem>(
+  clauses: readonly any[],
+  raw?: ReadonlySet<any>,
+): (item: TItem) => boolean {
+  const tests = clauses.map((clause) =>
+    raw?.has(clause) ? sift(clause) : compileClause(clause),
+  );
+  if (tests.length === 1) {
+    return tests[0] as (item: TItem) => boolean;
+  }
+
+  // Sift's $and also tries the elements of an item that is itself an array
+  let combined: ((item: TItem) => boolean) | undefined;
+  return (item) => {
+    if (Array.isArray(item)) {
+      combined ??= sift({ $and: clauses });
+      return combined(item);
+    }
+    for (let i = 0; i < tests.length; i++) {
+      if (!tests[i](item)) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Compiles a single sift query clause into a predicate.
+ *
+ * @internal
+ */
+export function compileClause(clause: any): (item: unknown) => boolean {
+  let matcher: Matcher;
+  try {
+    matcher = compileQuery(clause);
+  } catch (error) {
+    if (error instanceof UnsupportedClause) {
+      return sift(clause);
+    }
+    throw error;
+  }
+  return (item) => matcher([{ value: item, key: undefined, owner: undefined }]);
+}
+
+/**
+ * Compiles a query object. The returned matcher takes the values the query is
+ * applied to: the item for a top-level clause, or e.g. the array elements for `$elemMatch`.
+ */
+function compileQuery(query: any): Matcher {
+  if (!isVanillaObject(query)) {
+    return selfMatcher([equalsMatcher(createTester(query))]);
+  }
+  if (Array.isArray(query)) {
+    throw new UnsupportedClause();
+  }
+
+  const self: Matcher[] = [];
+  const nested: Matcher[] = [];
+  for (const key in query) {
+    if (key.charAt(0) === "$") {
+      const operation = compileOperation(key, query[key], query, false);
+      if (operation) self.push(operation);
+    } else {
+      nested.push(compileNested(key.split("."), query[key]));
+    }
+  }
+
+  const matchers = self.length > 0 ? [selfMatcher(self), ...nested] : nested;
+  return (inputs) => {
+    for (let i = 0; i < matchers.length; i++) {
+      if (!matchers[i](inputs)) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Compiles the query for one path, e.g. `{ 'price.amount': { $gte: 10 } }`.
+ */
+function compileNested(path: string[], query: any): Matcher {
+  let operations: Matcher[];
+  if (containsOperation(query)) {
+    operations = [];
+    for (const key in query) {
+      if (key.charAt(0) !== "$") {
+        throw new UnsupportedClause();
+      }
+      const operation = compileOperation(key, query[key], query, true);
+      if (operation) operations.push(operation);
+    }
+  } else {
+    operations = [equalsMatcher(createTester(query))];
+  }
+
+  return (inputs) => {
+    let candidates =
+      inputs.length === 1 ? readPlain(inputs[0].value, path) : undefined;
+    if (!candidates) {
+      candidates = [];
+      for (const { value, key, owner } of inputs) {
+        walk(value, path, 0, key, owner, candidates);
+      }
+    }
+    for (let i = 0; i < operations.length; i++) {
+      if (!operations[i](candidates)) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Fast path of {@link walk} for a path through plain objects only: returns the
+ * single value at `path`, or undefined if the walk meets an array or a missing object.
+ */
+function readPlain(value: any, path: string[]): Candidate[] | undefined {
+  let owner = value;
+  for (let depth = 0; depth < path.length - 1; depth++) {
+    if (owner == null || Array.isArray(owner)) return undefined;
+    owner = owner[path[depth]];
+  }
+  if (owner == null || Array.isArray(owner)) return undefined;
+  const key = path[path.length - 1];
+  const leaf = owner[key];
+  if (Array.isArray(leaf)) return undefined;
+  return [{ value: leaf, key, owner, leaf: true }];
+}
+
+/**
+ * Applies operations to the input values themselves (e.g. `$and`, or `$where` on the item).
+ */
+function selfMatcher(operations: Matcher[]): Matcher {
+  return (inputs) => {
+    const candidates: Candidate[] = [];
+    for (const { value, key, owner } of inputs) {
+      walk(value, [], 0, key, owner, candidates);
+    }
+    for (let i = 0; i < operations.length; i++) {
+      if (!operations[i](candidates)) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Collects the values at `path` like sift does: arrays on the way are expanded
+ * into their elements (and also tried as a whole), and a missing value ends the walk.
+ */
+function walk(
+  value: any,
+  path: string[],
+  depth: number,
+  key: any,
+  owner: any,
+  out: Candidate[],
+): void {
+  const currentKey = path[depth];
+  if (
+    Array.isArray(value) &&
+    isNaN(Number(currentKey)) &&
+    !isProperty(value, currentKey)
+  ) {
+    for (let i = 0; i < value.length; i++) {
+      walk(value[i], path, depth, i, value, out);
+    }
+  }
+  if (depth === path.length || value == null) {
+    out.push({
+      value,
+      key,
+      owner,
+      root: depth === 0,
+      leaf: depth === path.length,
+    });
+    return;
+  }
+  walk(value[currentKey], path, depth + 1, currentKey, value, out);
+}
+
+/**
+ * Compiles one `$operation`. Returns undefined for flags such as `$options`.
+ */
+function compileOperation(
+  name: string,
+  param: any,
+  query: any,
+  onProperty: boolean,
+): Matcher | undefined {
+  switch (name) {
+    case "$eq":
+      return equalsMatcher(createTester(param));
+    case "$ne": {
+      const test = createTester(param);
+      return (candidates) => !candidates.some(({ value }) => test(value));
+    }
+    case "$lt":
+      return equalsMatcher(numericTester(param, (b) => b != null && b < param));
+    case "$lte":
+      return equalsMatcher(
+        numericTester(param, (b) => b === param || b <= param),
+      );
+    case "$gt":
+      return equalsMatcher(numericTester(param, (b) => b != null && b > param));
+    case "$gte":
+      return equalsMatcher(
+        numericTester(param, (b) => b === param || b >= param),
+      );
+    case "$in": {
+      const test = inTester(param);
+      return (candidates) => candidates.some(({ value }) => test(value));
+    }
+    case "$nin": {
+      const test = inTester(param);
+      return (candidates) => {
+        for (const { value, key, owner, root } of candidates) {
+          const found = test(value);
+          if (!Array.isArray(owner) || root) return !found;
+          if (found) return false;
+          if (key == owner.length - 1) return true;
+        }
+        return false;
+      };
+    }
+    case "$exists":
+      return (candidates) => {
+        for (const { key, owner, leaf } of candidates) {
+          if (!leaf) return !param;
+          if (owner.hasOwnProperty(key) === param) return true;
+        }
+        return false;
+      };
+    case "$regex":
+      return equalsMatcher(createTester(new RegExp(param, query.$options)));
+    case "$options":
+      return undefined;
+    case "$mod": {
+      const [mod, remainder] = param;
+      return equalsMatcher((b) => comparable(b) % mod === remainder);
+    }
+    case "$size":
+      return (candidates) =>
+        candidates.some(
+          ({ value }) => Array.isArray(value) && value.length === param,
+        );
+    case "$type":
+      return equalsMatcher(typeTester(param));
+    case "$where": {
+      const test =
+        typeof param === "function"
+          ? param
+          : new Function("obj", "return " + param);
+      return equalsMatcher((b) => test.call(b, b));
+    }
+    case "$elemMatch": {
+      if (!param || typeof param !== "object") {
+        throw new UnsupportedClause();
+      }
+      const matcher = compileQuery(param);
+      return (candidates) => {
+        for (const { value } of candidates) {
+          if (Array.isArray(value)) {
+            return value.some((element, index) =>
+              matcher([{ value: element, key: index, owner: value }]),
+            );
+          }
+        }
+        return false;
+      };
+    }
+    case "$not": {
+      const matcher = compileQuery(param);
+      return (candidates) => !matcher(candidates);
+    }
+    case "$all":
+    case "$and": {
+      if (!Array.isArray(param) || (name === "$and" && param.length === 0)) {
+        throw new UnsupportedClause();
+      }
+      if (name === "$and" && onProperty) {
+        throw new UnsupportedClause();
+      }
+      const matchers = param.map(compileQuery);
+      return (candidates) => matchers.every((matcher) => matcher(candidates));
+    }
+    case "$or":
+    case "$nor": {
+      if (!Array.isArray(param) || param.length === 0 || onProperty) {
+        throw new UnsupportedClause();
+      }
+      const matchers = param.map(compileQuery);
+      const any: Matcher = (candidates) => {
+        if (candidates.length === 1) {
+          return matchers.some((matcher) => matcher(candidates));
+        }
+        // Sift tries each value in turn against branches that keep their state
+        for (let i = 1; i <= candidates.length; i++) {
+          const prefix = candidates.slice(0, i);
+          if (matchers.some((matcher) => matcher(prefix))) return true;
+        }
+        return false;
+      };
+      return name === "$or" ? any : (candidates) => !any(candidates);
+    }
+    default:
+      throw new UnsupportedClause();
+  }
+}
+
+/**
+ * Matches if any candidate passes `test`. Array elements reached through a
+ * named key (e.g. `lines.sku` on the array itself) are skipped, as in sift.
+ */
+function equalsMatcher(test: Tester): Matcher {
+  return (candidates) => {
+    for (let i = 0; i < candidates.length; i++) {
+      const { value, key, owner } = candidates[i];
+      if (
+        (!Array.isArray(owner) || owner.hasOwnProperty(key)) &&
+        test(value, key, owner)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+/**
+ * Builds an equality test for a query value: a regex tests strings, a function
+ * is called, and primitives compare with `===`. Dates, arrays and objects
+ * compare structurally.
+ */
+function createTester(expected: any): Tester {
+  if (expected instanceof Function) {
+    return expected;
+  }
+  if (expected instanceof RegExp) {
+    return (value) => {
+      const result = typeof value === "string" && expected.test(value);
+      expected.lastIndex = 0;
+      return result;
+    };
+  }
+  const target = comparable(expected);
+  if (target !== null && target !== undefined && typeof target !== "object") {
+    return (value) =>
+      value === target ||
+      (typeof value === "object" &&
+        value !== null &&
+        comparable(value) === target);
+  }
+  return (value) => equals(target, comparable(value));
+}
+
+function inTester(param: any): Tester {
+  const tests = (Array.isArray(param) ? param : [param]).map((value) => {
+    if (containsOperation(value)) {
+      throw new UnsupportedClause();
+    }
+    return createTester(value);
+  });
+  return (value) => tests.some((test) => test(value));
+}
+
+/**
+ * Builds an ordering test that only compares values of the same type as `param`
+ * (after converting dates to timestamps), treating undefined as null.
+ */
+function numericTester(param: any, test: (value: any) => boolean): Tester {
+  const type = typeof comparable(param);
+  return (value) => {
+    const actual = value == null ? null : value;
+    return typeof comparable(actual) === type && test(actual);
+  };
+}
+
+/**
+ * Type names accepted by `$type`.
+ */
+const TYPE_ALIASES: Record<string, (value: any) => boolean> = {
+  number: (value) => typeof value === "number",
+  string: (value) => typeof value === "string",
+  bool: (value) => typeof value === "boolean",
+  array: (value) => Array.isArray(value),
+  null: (value) => value === null,
+  timestamp: (value) => value instanceof Date,
+};
+
+function typeTester(type: string | Function): Tester {
+  if (typeof type === "string") {
+    const test = TYPE_ALIASES[type];
+    return (value) => {
+      if (!test) {
+        throw new Error(`Type alias does not exist`);
+      }
+      return test(value);
+    };
+  }
+  return (value) =>
+    value != null ? value instanceof type || value.constructor === type : false;
+}
+
+/**
+ * Converts dates to timestamps and objects with `toJSON()` to their JSON value, recursively in arrays.
+ */
+function comparable(value: any): any {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (Array.isArray(value)) {
+    return value.map(comparable);
+  }
+  if (typeof value.toJSON === "function") {
+    return value.toJSON();
+  }
+  return value;
+}
+
+/**
+ * Structural equality of comparable values; `null` and `undefined` are equal.
+ */
+function equals(a: any, b: any): boolean {
+  if ((a == null && a == b) || a === b) {
+    return true;
+  }
+  if (Object.prototype.toString.call(a) !== Object.prototype.toString.call(b)) {
+    return false;
+  }
+  if (Array.isArray(a)) {
+    return (
+      a.length === b.length && a.every((item, index) => equals(item, b[index]))
+    );
+  }
+  if (Object.prototype.toString.call(a) === "[object Object]") {
+    if (Object.keys(a).length !== Object.keys(b).length) {
+      return false;
+    }
+    for (const key in a) {
+      if (!equals(a[key], b[key])) return false;
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Returns true if the query value holds `$operations` rather than a value to compare against.
+ */
+function containsOperation(query: any): boolean {
+  for (const key in query) {
+    if (key.charAt(0) === "$") return true;
+  }
+  return false;
+}
+
+function isProperty(value: any, key: any): boolean {
+  return value.hasOwnProperty(key) && typeof value[key] !== "function";
+}
+
+/**
+ * Returns true for plain objects and arrays, which sift reads as queries
+ * rather than values.
+ */
+function isVanillaObject(value: any): boolean {
+  return (
+    value &&
+    (value.constructor === Object ||
+      value.constructor === Array ||
+      value.constructor.toString() === "function Object() { [native code] }" ||
+      value.constructor.toString() === "function Array() { [native code] }") &&
+    !value.toJSON
+  );
+}
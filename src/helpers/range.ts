@@ -0,0 +1,80 @@
+/**
+ * @file helpers/range.ts
+ * @description Utilities for building range (between) clauses.
+ */
+
+import { BetweenInclusive, NumericTolerance, RangeBound } from "../types";
+import { compareNumbers, hasTolerance } from "./numeric";
+
+/**
+ * Builds a sift clause matching values between `min` and `max`.
+ * When negated, builds the complementary clause: values below or above the range.
+ * Like the other comparison operators, items without the field never match.
+ * Numeric bounds honor the `decimals` / `epsilon` tolerance, if given.
+ *
+ * @example
+ * ```ts
+ * betweenClause('price', 10, 20, 'left');
+ * // => { price: { $gte: 10, $lt: 20 } }
+ * betweenClause('price', 10, 20, 'left', true);
+ * // => { $or: [{ price: { $lt: 10 } }, { price: { $gte: 20 } }] }
+ * ```
+ *
+ * @throws Error if `min` is greater than `max` or `inclusive` is not a known mode
+ * @internal
+ */
+export function betweenClause(
+  path: string,
+  min: RangeBound,
+  max: RangeBound,
+  inclusive: BetweenInclusive = "both",
+  negate: boolean = false,
+  tolerance?: NumericTolerance,
+): any {
+  if (!["both", "left", "right", "none"].includes(inclusive)) {
+    throw new Error(
+      `Invalid inclusive option "${inclusive}". Expected "both", "left", "right" or "none".`,
+    );
+  }
+  if (min > max) {
+    throw new Error(
+      `Invalid range: min (${String(min)}) is greater than max (${String(max)}).`,
+    );
+  }
+
+  const includeMin = inclusive === "both" || inclusive === "left";
+  const includeMax = inclusive === "both" || inclusive === "right";
+
+  if (
+    hasTolerance(tolerance) &&
+    typeof min === "number" &&
+    typeof max === "number"
+  ) {
+    return {
+      [path]: {
+        $where: (value: unknown) => {
+          if (typeof value !== "number") return false;
+          const inRange =
+            compareNumbers(value, includeMin ? ">=" : ">", min, tolerance) &&
+            compareNumbers(value, includeMax ? "<=" : "<", max, tolerance);
+          return negate ? !inRange : inRange;
+        },
+      },
+    };
+  }
+
+  if (negate) {
+    return {
+      $or: [
+        { [path]: { [includeMin ? "$lt" : "$lte"]: min } },
+        { [path]: { [includeMax ? "$gt" : "$gte"]: max } },
+      ],
+    };
+  }
+  return {
+    [path]: {
+      [includeMin ? "$gte" : "$gt"]: min,
+      [includeMax ? "$lte" : "$lt"]: max,
+    },
+  };
+}
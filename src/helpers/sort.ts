@@ -0,0 +1,163 @@
+/**
+ * @file helpers/sort.ts
+ * @description Utilities for stable multi-key sorting.
+ */
+
+import { SortKey } from "../types";
+import { tryGetByPath } from "./path";
+
+/**
+ * Returns a copy of `items` sorted by `keys` (or `items` itself without keys), most significant key first.
+ * Later keys only break ties of earlier ones, and items that tie on every key
+ * keep their original order. Each key is read once per item.
+ *
+ * Keys that are `null`, `undefined` or missing go last (or first with
+ * `nulls: "first"`) in both directions. Other keys are compared with
+ * `compare` if given, and otherwise by {@link compareSortValues}.
+ *
+ * @example
+ * ```ts
+ * sortItems(users, [{ path: 'lastName' }, { path: 'age', direction: 'desc' }]);
+ * ```
+ *
+ * @throws Error if a key has an unknown `collation`
+ * @internal
+ */
+export function sortItems<TItem>(
+  items: readonly TItem[],
+  keys: ReadonlyArray<SortKey<TItem>>,
+): readonly TItem[] {
+  if (keys.length === 0) {
+    return items;
+  }
+
+  const readers = keys.map((key) =>
+    key.by ? key.by : (item: TItem) => tryGetByPath(item, key.path!),
+  );
+  const comparators = keys.map(createComparator);
+  const rows = items.map((item) => ({
+    item,
+    values: readers.map((read) => read(item)),
+  }));
+
+  rows.sort((a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const comparison = compareKey(
+        a.values[i],
+        b.values[i],
+        keys[i],
+        comparators[i],
+      );
+      if (comparison !== 0) {
+        return comparison;
+      }
+    }
+    return 0;
+  });
+
+  return rows.map((row) => row.item);
+}
+
+function compareKey(
+  a: unknown,
+  b: unknown,
+  key: SortKey<any>,
+  compare: (a: any, b: any) => number,
+): number {
+  const aIsNull = a === null || a === undefined;
+  const bIsNull = b === null || b === undefined;
+  if (aIsNull || bIsNull) {
+    if (aIsNull && bIsNull) {
+      return 0;
+    }
+    const nullsLast = key.nulls !== "first";
+    return aIsNull === nullsLast ? 1 : -1;
+  }
+
+  const comparison = compare(a, b);
+  return key.direction === "desc" ? -comparison : comparison;
+}
+
+/**
+ * Returns the comparator for non-null keys, building the key's collator once.
+ */
+function createComparator(key: SortKey<any>): (a: any, b: any) => number {
+  if (key.compare) {
+    return key.compare;
+  }
+  const { collation, locale, caseInsensitive, numeric } = key;
+  if (
+    collation !== undefined &&
+    collation !== "natural" &&
+    collation !== "locale"
+  ) {
+    throw new Error(
+      `Invalid collation "${collation}". Expected "natural" or "locale".`,
+    );
+  }
+  if (!collation && !locale && !caseInsensitive && numeric === undefined) {
+    return compareSortValues;
+  }
+
+  const collator = new Intl.Collator(locale, {
+    numeric: numeric ?? collation === "natural",
+    sensitivity: caseInsensitive ? "accent" : "variant",
+  });
+  return (a, b) =>
+    typeof a === "string" && typeof b === "string"
+      ? collator.compare(a, b)
+      : compareSortValues(a, b);
+}
+
+/**
+ * Rank of each type in the sort order; other values (objects, arrays) rank last.
+ */
+function typeRank(value: unknown): number {
+  switch (typeof value) {
+    case "number":
+    case "bigint":
+      return 0;
+    case "string":
+      return 1;
+    case "boolean":
+      return 2;
+    default:
+      return value instanceof Date ? 3 : 4;
+  }
+}
+
+/**
+ * Total ordering of non-null sort keys: numbers, then strings, then booleans,
+ * then dates, then anything else. Within a type, numbers (with `NaN` first) and
+ * dates (with invalid dates first) compare by value, strings by UTF-16 code
+ * units and `false` before `true`; other values compare as equal.
+ *
+ * @example
+ * ```ts
+ * [true, "b", 10, new Date(0), "a", 2].sort(compareSortValues);
+ * // => [2, 10, "a", "b", true, Date(0)]
+ * ```
+ *
+ * @internal
+ */
+export function compareSortValues(a: any, b: any): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+  if (rankA === 4) {
+    return 0;
+  }
+  if (rankA === 3) {
+    a = a.getTime();
+    b = b.getTime();
+  }
+
+  const aIsNaN = a !== a;
+  const bIsNaN = b !== b;
+  if (aIsNaN || bIsNaN) {
+    return aIsNaN === bIsNaN ? 0 : aIsNaN ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -1,2 +1,34 @@
-export { query } from "./core/query";
+export { query, queryAsync } from "./core/query";
 export { getPathSegmentAfter } from "./helpers/path";
+export { compileFilter } from "./filters/compile-filter";
+export { formatFilter } from "./filters/format-filter";
+export { FilterSyntaxError } from "./filters/filter-syntax-error";
+export type {
+  AsyncQuerySource,
+  AsyncSourceOptions,
+  BetweenInclusive,
+  BetweenOptions,
+  CompiledFilter,
+  FilterArithmeticNode,
+  FilterArithmeticOperator,
+  FilterCallNode,
+  FilterCheck,
+  FilterCheckNode,
+  FilterComparisonNode,
+  FilterExpressionNode,
+  FilterFieldNode,
+  FilterLiteralNode,
+  FilterLiteralValue,
+  FilterLogicalNode,
+  FilterNode,
+  FilterNotNode,
+  FilterOperator,
+  FilterOptions,
+  FilterParameterNode,
+  FilterQuantifierNode,
+  FilterRangeNode,
+  NumericTolerance,
+  SortDirection,
+  SortKey,
+  SortOptions,
+} from "./types";
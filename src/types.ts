@@ -37,6 +37,148 @@ export type WhereOptions = {
   trim?: boolean;
 };
 
+/**
+ * Tolerance for numeric comparisons, so values like `19.989999` compare equal to `19.99`.
+ */
+export type NumericTolerance = {
+  /**
+   * Number of decimal places both sides are rounded to before comparing.
+   */
+  decimals?: number;
+
+  /**
+   * Numbers within this absolute difference compare as equal (e.g. `1e-9`).
+   */
+  epsilon?: number;
+
+  /**
+   * Numbers within this fraction of the larger magnitude compare as equal (e.g. `1e-6`).
+   */
+  relativeEpsilon?: number;
+};
+
+/**
+ * Which bounds of a `between` range are included:
+ * `"both"` (`min <= x <= max`), `"left"` (`min <= x < max`),
+ * `"right"` (`min < x <= max`) or `"none"` (`min < x < max`).
+ */
+export type BetweenInclusive = "both" | "left" | "right" | "none";
+
+/**
+ * Options for `WhereBuilder.between()`.
+ */
+export type BetweenOptions = NumericTolerance & {
+  /**
+   * Which bounds are included in the range.
+   *
+   * @defaultValue `"both"`
+   */
+  inclusive?: BetweenInclusive;
+};
+
+/**
+ * A bound of a `between` range: a number, a string (e.g. an ISO date) or a Date.
+ */
+export type RangeBound = number | string | Date;
+
+/**
+ * Sort direction.
+ */
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Options for a single sort key.
+ */
+export type SortOptions = {
+  /**
+   * Where items whose key is `null` or `undefined` go, regardless of direction.
+   *
+   * @defaultValue `"last"`
+   */
+  nulls?: "first" | "last";
+
+  /**
+   * How strings are compared: `"locale"` uses `Intl.Collator`, and `"natural"`
+   * also orders embedded numbers by value (`"item2"` before `"item10"`).
+   * Setting `locale`, `caseInsensitive` or `numeric` implies `"locale"`.
+   * Without any of these, strings are compared by UTF-16 code units.
+   */
+  collation?: "natural" | "locale";
+
+  /**
+   * Locale(s) for `Intl.Collator`, e.g. `"de"` or `["sv", "en"]`.
+   *
+   * @defaultValue the runtime's default locale
+   */
+  locale?: string | string[];
+
+  /**
+   * If true, strings differing only in case sort as equal (and keep their order).
+   *
+   * @defaultValue `false`
+   */
+  caseInsensitive?: boolean;
+
+  /**
+   * If true, digit sequences in strings compare by numeric value.
+   *
+   * @defaultValue `true` for `"natural"`, `false` otherwise
+   */
+  numeric?: boolean;
+
+  /**
+   * Compares two non-null keys; negated for `"desc"`.
+   * Replaces the default ordering and the string collation options.
+   * Defaults to ordering by type (numbers, strings, booleans, dates, then
+   * anything else), then by value within a type.
+   *
+   * @example `{ compare: (a, b) => a.localeCompare(b) }`
+   */
+  compare?: (a: any, b: any) => number;
+};
+
+/**
+ * A sort key: a field path or a function computing the key from the item,
+ * with a direction and sort options.
+ *
+ * @example `{ path: 'age', direction: 'desc', nulls: 'first' }`
+ * @example `{ by: (user) => user.name.length }`
+ */
+export type SortKey<TItem = any> = SortOptions & {
+  /**
+   * @defaultValue `"asc"`
+   */
+  direction?: SortDirection;
+} & (
+    | { path: string; by?: never }
+    | { by: (item: TItem) => unknown; path?: never }
+  );
+
+/**
+ * Source of a `queryAsync()` query: an async or sync iterable (an async
+ * generator, a Node `Readable`, an array), or a function returning a fresh one
+ * for each terminal call.
+ */
+export type AsyncQuerySource<TItem = any> =
+  | AsyncIterable<TItem>
+  | Iterable<TItem>
+  | (() => AsyncIterable<TItem> | Iterable<TItem>);
+
+/**
+ * Options for `queryAsync()`.
+ */
+export type AsyncSourceOptions = {
+  /**
+   * How the source's chunks are read:
+   * - `"items"` → each chunk is an item
+   * - `"ndjson"` → text chunks holding one JSON value per line
+   * - `"json-array"` → text chunks holding one JSON array, parsed element by element
+   *
+   * @defaultValue `"ndjson"` for Node byte streams, `"items"` otherwise
+   */
+  format?: "items" | "ndjson" | "json-array";
+};
+
 /**
  * Metadata for tracking an item's source within a groups hierarchy.
  */
@@ -53,3 +195,240 @@ export type ArrayQueryMetadata = {
   arrayPath?: string;
   itemMetadata?: Array<GroupItemMetadata>;
 };
+
+/**
+ * Options accepted by `filter()` expressions.
+ */
+export type FilterOptions = {
+  /**
+   * If true, string operators (`contains`, `startsWith`, `endsWith`) match case-sensitively.
+   *
+   * @defaultValue `false`
+   */
+  caseSensitive?: boolean;
+
+  /**
+   * If true, string operands are trimmed before matching.
+   *
+   * @defaultValue `true`
+   */
+  trim?: boolean;
+
+  /**
+   * Number of decimal places both sides of numeric comparisons are rounded to.
+   */
+  decimals?: number;
+
+  /**
+   * Numbers within this absolute difference compare as equal in numeric comparisons.
+   */
+  epsilon?: number;
+
+  /**
+   * Numbers within this fraction of the larger magnitude compare as equal in numeric comparisons.
+   */
+  relativeEpsilon?: number;
+
+  /**
+   * Values for `:name` and `$1` placeholders in the expression.
+   * Bound as literals after parsing, so they are never re-tokenized.
+   *
+   * @example `{ params: { name: "O'Brien", 1: 30 } }`
+   */
+  params?: Record<string | number, unknown>;
+};
+
+/**
+ * Comparison operators of the filter DSL, normalized to lower case.
+ */
+export type FilterOperator =
+  | "=="
+  | "==="
+  | "!="
+  | "!=="
+  | "not"
+  | ">"
+  | ">="
+  | "<"
+  | "<="
+  | "contains"
+  | "startswith"
+  | "endswith"
+  | "in"
+  | "not in"
+  | "matches"
+  | "not matches"
+  | "between"
+  | "not between"
+  | "has";
+
+/**
+ * A field reference in a filter expression, as a dot-path.
+ * Bracket syntax is normalized: `items[0].price` → `items.0.price`,
+ * `tags[*]` → `tags.*`, `headers['x-request-id']` → `headers.x-request-id`.
+ */
+export type FilterFieldNode = {
+  type: "field";
+  path: string;
+};
+
+/**
+ * Value of a literal in a filter expression: a scalar, a list for `in` / `not in`,
+ * or a regex for `matches` / `not matches`.
+ */
+export type FilterLiteralValue =
+  Primitive | null | undefined | Array<Primitive | null | undefined> | RegExp;
+
+/**
+ * A literal value in a filter expression.
+ */
+export type FilterLiteralNode = {
+  type: "literal";
+  value: FilterLiteralValue;
+};
+
+/**
+ * A `:name` or `$1` placeholder, bound from `FilterOptions.params` at compile time.
+ */
+export type FilterParameterNode = {
+  type: "parameter";
+  name: string;
+};
+
+/**
+ * Arithmetic operators of computed filter expressions.
+ */
+export type FilterArithmeticOperator = "+" | "-" | "*" | "/" | "%";
+
+/**
+ * A binary arithmetic operation in a filter expression, e.g. `price * quantity`.
+ */
+export type FilterArithmeticNode = {
+  type: "arithmetic";
+  operator: FilterArithmeticOperator;
+  left: FilterExpressionNode;
+  right: FilterExpressionNode;
+};
+
+/**
+ * A function call in a filter expression, e.g. `len(name)` or `round(total, 2)`.
+ */
+export type FilterCallNode = {
+  type: "call";
+  name: string;
+  args: FilterExpressionNode[];
+};
+
+/**
+ * An operand of a computed filter expression.
+ */
+export type FilterExpressionNode =
+  | FilterFieldNode
+  | FilterLiteralNode
+  | FilterParameterNode
+  | FilterArithmeticNode
+  | FilterCallNode;
+
+/**
+ * The `min and max` bounds of a `between` / `not between` comparison.
+ */
+export type FilterRangeNode = {
+  type: "range";
+  min: FilterLiteralNode | FilterParameterNode;
+  max: FilterLiteralNode | FilterParameterNode;
+};
+
+/**
+ * A single `field operator value` comparison in a filter expression.
+ * The left-hand side is a field, or a value computed from fields (`price * quantity`, `len(name)`).
+ * The value is a literal, a placeholder, a range for `between`, or, for `@path`
+ * references, another field of the same item.
+ */
+export type FilterComparisonNode = {
+  type: "comparison";
+  operator: FilterOperator;
+  field: FilterFieldNode | FilterArithmeticNode | FilterCallNode;
+  value:
+    FilterLiteralNode | FilterFieldNode | FilterParameterNode | FilterRangeNode;
+};
+
+/**
+ * Value-less checks of the filter DSL: `exists`, `is null`, `is empty` and `is <type>`.
+ */
+export type FilterCheck =
+  | "exists"
+  | "null"
+  | "empty"
+  | "string"
+  | "number"
+  | "boolean"
+  | "array"
+  | "object";
+
+/**
+ * A value-less check on a field, e.g. `email exists` or `tags is not empty`.
+ */
+export type FilterCheckNode = {
+  type: "check";
+  check: FilterCheck;
+  field: FilterFieldNode;
+  /** True for `not exists` / `is not ...`. */
+  negated: boolean;
+};
+
+/**
+ * An `any path: (...)` / `all path: (...)` condition on the elements of an array field.
+ * Fields in `condition` are relative to each element.
+ */
+export type FilterQuantifierNode = {
+  type: "quantifier";
+  quantifier: "any" | "all";
+  field: FilterFieldNode;
+  condition: FilterNode;
+};
+
+/**
+ * An `and` / `or` combination of filter expressions.
+ */
+export type FilterLogicalNode = {
+  type: "logical";
+  operator: "and" | "or";
+  operands: FilterNode[];
+};
+
+/**
+ * A `not (...)` negation of a filter expression.
+ */
+export type FilterNotNode = {
+  type: "not";
+  operand: FilterNode;
+};
+
+/**
+ * Parsed form of a `filter()` expression.
+ */
+export type FilterNode =
+  | FilterComparisonNode
+  | FilterCheckNode
+  | FilterQuantifierNode
+  | FilterLogicalNode
+  | FilterNotNode;
+
+/**
+ * A parsed and compiled filter expression, returned by `compileFilter()`.
+ * Can be passed to `ArrayQuery.filter()` in place of an expression string.
+ *
+ * @typeParam TItem - The type of item the predicate is applied to.
+ */
+export type CompiledFilter<TItem = any> = {
+  /** The source expression, when compiled from a string. */
+  expression?: string;
+  /** The typed syntax tree of the expression. */
+  ast: FilterNode;
+  /** The options the filter was compiled with. */
+  options: FilterOptions;
+  /** The equivalent sift query. Throws if placeholders are not bound. */
+  readonly query: any;
+  /** Returns true if the item matches the filter. */
+  test: (item: TItem) => boolean;
+};